@@ -0,0 +1,327 @@
+'use client'
+
+import { useEffect, useRef, useState, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, RefreshCw, Trash2, Upload } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+
+interface KnowledgeDocument {
+  id: string
+  title: string
+  category: string
+  fileName: string
+  size: number
+  embeddingModel: string
+  createdAt: string
+  uploadedBy: { email: string } | null
+  _count: {
+    chunks: number
+  }
+}
+
+const categoryLabels: Record<string, string> = {
+  standard: 'Standard',
+  procedure: 'Procedure',
+  datasheet: 'Datasheet',
+  other: 'Other',
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export default function AdminKnowledgePage() {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
+  const [embeddingModel, setEmbeddingModel] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [title, setTitle] = useState('')
+  const [category, setCategory] = useState('standard')
+  const [uploading, setUploading] = useState(false)
+  const [reindexingId, setReindexingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [])
+
+  async function fetchDocuments() {
+    try {
+      const response = await fetch('/api/knowledge')
+      if (response.ok) {
+        const data = await response.json()
+        setDocuments(data.documents)
+        setEmbeddingModel(data.embeddingModel)
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load documents')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function uploadDocument(e: FormEvent) {
+    e.preventDefault()
+    const file = fileInputRef.current?.files?.[0]
+    if (!file) return
+
+    setError('')
+    setUploading(true)
+
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('title', title)
+    formData.append('category', category)
+
+    try {
+      const response = await fetch('/api/knowledge', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to upload document')
+      } else {
+        setTitle('')
+        if (fileInputRef.current) fileInputRef.current.value = ''
+        fetchDocuments()
+      }
+    } catch (error) {
+      setError('Failed to upload document')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  async function reindexDocument(document: KnowledgeDocument) {
+    setReindexingId(document.id)
+
+    try {
+      const response = await fetch(`/api/knowledge/${document.id}/reindex`, {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        fetchDocuments()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to reindex document')
+      }
+    } catch (error) {
+      alert('Failed to reindex document')
+    } finally {
+      setReindexingId(null)
+    }
+  }
+
+  async function deleteDocument(document: KnowledgeDocument) {
+    if (!confirm(`Are you sure you want to delete "${document.title}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/knowledge/${document.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchDocuments()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete document')
+      }
+    } catch (error) {
+      alert('Failed to delete document')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading knowledge base...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Knowledge Base</h1>
+          </div>
+        </div>
+
+        <AdminNav />
+
+        <p className="mb-4 text-sm text-gray-600">
+          Uploaded documents are split into passages and embedded with <span className="font-mono">{embeddingModel}</span>.
+          The passages closest to each question are added to the chat context and cited as [S1], [S2]...
+          Documents embedded with another model are skipped until they are reindexed.
+        </p>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Document
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Category
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Passages
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Embedding model
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Uploaded
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {documents.map((document) => {
+                  const isStale = document.embeddingModel !== embeddingModel
+
+                  return (
+                    <tr key={document.id}>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium">{document.title}</div>
+                        <div className="text-xs text-gray-500">
+                          {document.fileName} · {formatSize(document.size)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {categoryLabels[document.category] ?? document.category}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{document._count.chunks}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                        {document.embeddingModel}
+                        {isStale && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800 font-sans">
+                            Needs reindex
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(document.createdAt).toLocaleDateString()}
+                        {document.uploadedBy && <div className="text-xs">{document.uploadedBy.email}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end gap-2">
+                          {isStale && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => reindexDocument(document)}
+                              disabled={reindexingId === document.id}
+                            >
+                              <RefreshCw className={`h-4 w-4 ${reindexingId === document.id ? 'animate-spin' : ''}`} />
+                              Reindex
+                            </Button>
+                          )}
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => deleteDocument(document)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {documents.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No documents yet
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={uploadDocument} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Upload document</h2>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-gray-700">
+              File
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.docx,.xlsx,.csv,.txt,.md,.markdown,.json,text/*"
+                required
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Title
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="mt-1"
+                placeholder="Defaults to the file name"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Category
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="mt-1 h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                {Object.entries(categoryLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={uploading}>
+              <Upload className="h-4 w-4" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
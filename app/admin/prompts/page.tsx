@@ -0,0 +1,383 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, Plus, Save, Send, RotateCcw, Trash2 } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+
+type VersionStatus = 'draft' | 'published' | 'archived'
+
+interface PromptVersion {
+  id: string
+  version: number
+  content: string
+  status: VersionStatus
+  createdAt: string
+  publishedAt: string | null
+  _count: {
+    conversations: number
+  }
+}
+
+interface PromptTemplate {
+  id: string
+  name: string
+  description: string | null
+  versions: PromptVersion[]
+}
+
+const statusConfig = {
+  draft: { bg: 'bg-yellow-100', text: 'text-yellow-800', label: 'Draft' },
+  published: { bg: 'bg-green-100', text: 'text-green-800', label: 'Published' },
+  archived: { bg: 'bg-gray-100', text: 'text-gray-800', label: 'Archived' },
+}
+
+export default function AdminPromptsPage() {
+  const router = useRouter()
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([])
+  const [template, setTemplate] = useState<PromptTemplate | null>(null)
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null)
+  const [content, setContent] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newTemplateName, setNewTemplateName] = useState('')
+
+  const selectedVersion = template?.versions.find((v) => v.id === selectedVersionId) ?? null
+  const isDirty = selectedVersion ? selectedVersion.content !== content : content.length > 0
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  async function fetchTemplates(selectTemplateId?: string) {
+    try {
+      const response = await fetch('/api/prompt-templates')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates)
+        const templateId = selectTemplateId ?? template?.id ?? data.templates[0]?.id
+        if (templateId) {
+          await fetchTemplate(templateId)
+        }
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load prompt templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function fetchTemplate(templateId: string, selectVersionId?: string) {
+    try {
+      const response = await fetch(`/api/prompt-templates/${templateId}`)
+      if (response.ok) {
+        const data = await response.json()
+        const loadedTemplate: PromptTemplate = data.template
+        setTemplate(loadedTemplate)
+
+        // Default to the published version, or the latest one
+        const version =
+          loadedTemplate.versions.find((v) => v.id === selectVersionId) ??
+          loadedTemplate.versions.find((v) => v.status === 'published') ??
+          loadedTemplate.versions[0]
+        setSelectedVersionId(version?.id ?? null)
+        setContent(version?.content ?? '')
+      }
+    } catch (error) {
+      alert('Failed to load prompt template')
+    }
+  }
+
+  function selectVersion(version: PromptVersion) {
+    if (isDirty && !confirm('Discard unsaved changes?')) {
+      return
+    }
+    setSelectedVersionId(version.id)
+    setContent(version.content)
+  }
+
+  async function createTemplate() {
+    if (!newTemplateName) return
+
+    try {
+      const response = await fetch('/api/prompt-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newTemplateName, content: 'New prompt' }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setNewTemplateName('')
+        fetchTemplates(data.template.id)
+      } else {
+        alert(data.error || 'Failed to create template')
+      }
+    } catch (error) {
+      alert('Failed to create template')
+    }
+  }
+
+  // Drafts are edited in place; published and archived versions are copied into a new draft
+  async function saveDraft(): Promise<string | null> {
+    if (!template) return null
+    setSaving(true)
+
+    try {
+      const editInPlace = selectedVersion?.status === 'draft'
+      const response = await fetch(
+        editInPlace
+          ? `/api/prompt-templates/${template.id}/versions/${selectedVersion.id}`
+          : `/api/prompt-templates/${template.id}/versions`,
+        {
+          method: editInPlace ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        alert(data.error || 'Failed to save draft')
+        return null
+      }
+
+      await fetchTemplate(template.id, data.version.id)
+      return data.version.id
+    } catch (error) {
+      alert('Failed to save draft')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function publishVersion(versionId: string, label: string) {
+    if (!template) return
+    if (!confirm(`${label}? The chat will use this version immediately.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/prompt-templates/${template.id}/versions/${versionId}/publish`,
+        { method: 'POST' }
+      )
+
+      const data = await response.json()
+      if (response.ok) {
+        fetchTemplate(template.id, versionId)
+      } else {
+        alert(data.error || 'Failed to publish version')
+      }
+    } catch (error) {
+      alert('Failed to publish version')
+    }
+  }
+
+  async function publishEditor() {
+    // Unchanged drafts and archived versions are published as-is, edits are saved as a draft first
+    const versionId = !isDirty && selectedVersion ? selectedVersion.id : await saveDraft()
+    if (versionId) {
+      publishVersion(versionId, 'Publish this version')
+    }
+  }
+
+  async function deleteDraft(version: PromptVersion) {
+    if (!template) return
+    if (!confirm(`Are you sure you want to delete draft v${version.version}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/prompt-templates/${template.id}/versions/${version.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (response.ok) {
+        fetchTemplate(template.id)
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete draft')
+      }
+    } catch (error) {
+      alert('Failed to delete draft')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading prompts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Prompt Library</h1>
+          </div>
+        </div>
+
+        <AdminNav />
+
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          {templates.map((t) => (
+            <Button
+              key={t.id}
+              variant={template?.id === t.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => fetchTemplate(t.id)}
+            >
+              {t.name}
+            </Button>
+          ))}
+          <div className="ml-auto flex items-center gap-2">
+            <Input
+              value={newTemplateName}
+              onChange={(e) => setNewTemplateName(e.target.value)}
+              placeholder="new-template"
+              className="h-8 w-44 bg-white"
+            />
+            <Button variant="outline" size="sm" onClick={createTemplate} disabled={!newTemplateName}>
+              <Plus className="h-4 w-4" />
+              New template
+            </Button>
+          </div>
+        </div>
+
+        {!template && (
+          <div className="text-center py-12 text-gray-500">
+            No prompt templates yet. The chat uses the built-in system prompt.
+          </div>
+        )}
+
+        {template && (
+          <div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Version
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {template.versions.map((version) => {
+                    const config = statusConfig[version.status]
+
+                    return (
+                      <tr
+                        key={version.id}
+                        className={`cursor-pointer hover:bg-gray-50 ${
+                          version.id === selectedVersionId ? 'bg-blue-50' : ''
+                        }`}
+                        onClick={() => selectVersion(version)}
+                      >
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium">v{version.version}</div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(version.createdAt).toLocaleDateString()} · {version._count.conversations} conversations
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${config.bg} ${config.text}`}
+                          >
+                            {config.label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+                          {version.status === 'archived' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => publishVersion(version.id, `Roll back to v${version.version}`)}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                              Roll back
+                            </Button>
+                          )}
+                          {version.status === 'draft' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteDraft(version)}
+                              aria-label="Delete draft"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold">
+                  {selectedVersion ? `v${selectedVersion.version}` : 'New version'}
+                  {selectedVersion && selectedVersion.status !== 'draft' && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      Read-only — saving creates a new draft
+                    </span>
+                  )}
+                </h2>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={saveDraft} disabled={saving || !isDirty}>
+                    <Save className="h-4 w-4" />
+                    {selectedVersion?.status === 'draft' ? 'Save draft' : 'Save as new draft'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={publishEditor}
+                    disabled={saving || (selectedVersion?.status === 'published' && !isDirty)}
+                  >
+                    <Send className="h-4 w-4" />
+                    Publish
+                  </Button>
+                </div>
+              </div>
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                className="min-h-[480px] w-full resize-y rounded-md border border-input p-3 font-mono text-sm outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                aria-label="Prompt content"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,408 @@
+'use client'
+
+import { useEffect, useState, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, Pencil, Plus, Save, Trash2, X } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+import type { QuotaLimitKey } from '@/lib/quotas'
+
+interface Quota extends Record<QuotaLimitKey, number | null> {
+  id: string
+  role: string | null
+  userId: string | null
+  unlimited: QuotaLimitKey[]
+  user: {
+    id: string
+    email: string
+    role: string
+  } | null
+}
+
+interface User {
+  id: string
+  email: string
+  role: string
+}
+
+const limitColumns: { key: QuotaLimitKey; label: string }[] = [
+  { key: 'dailyMessages', label: 'Messages / day' },
+  { key: 'monthlyMessages', label: 'Messages / month' },
+  { key: 'dailyTokens', label: 'Tokens / day' },
+  { key: 'monthlyTokens', label: 'Tokens / month' },
+  { key: 'dailyImageRequests', label: 'Images / day' },
+  { key: 'monthlyImageRequests', label: 'Images / month' },
+]
+
+const emptyLimits = Object.fromEntries(limitColumns.map(({ key }) => [key, ''])) as Record<QuotaLimitKey, string>
+
+const emptyForm = {
+  target: 'role' as 'role' | 'user',
+  role: 'user',
+  userId: '',
+  limits: emptyLimits,
+  unlimited: [] as QuotaLimitKey[],
+}
+
+export default function AdminQuotasPage() {
+  const router = useRouter()
+  const [quotas, setQuotas] = useState<Quota[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchQuotas()
+    fetchUsers()
+  }, [])
+
+  async function fetchQuotas() {
+    try {
+      const response = await fetch('/api/quotas')
+      if (response.ok) {
+        const data = await response.json()
+        setQuotas(data.quotas)
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load quotas')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function fetchUsers() {
+    try {
+      const response = await fetch('/api/users')
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(data.users)
+      }
+    } catch (error) {
+      // The user picker stays empty; role quotas still work
+    }
+  }
+
+  function editQuota(quota: Quota) {
+    setError('')
+    setEditingId(quota.id)
+    setForm({
+      target: quota.userId ? 'user' : 'role',
+      role: quota.role ?? '',
+      userId: quota.userId ?? '',
+      limits: Object.fromEntries(
+        limitColumns.map(({ key }) => [key, quota[key] === null ? '' : String(quota[key])])
+      ) as Record<QuotaLimitKey, string>,
+      unlimited: quota.unlimited,
+    })
+  }
+
+  function cancelEdit() {
+    setEditingId(null)
+    setForm(emptyForm)
+    setError('')
+  }
+
+  async function saveQuota(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setSaving(true)
+
+    const limits = {
+      ...Object.fromEntries(
+        limitColumns.map(({ key }) => [
+          key,
+          form.limits[key].trim() && !form.unlimited.includes(key) ? Number(form.limits[key]) : null,
+        ])
+      ),
+      // User overrides can lift a limit the role sets
+      ...(form.target === 'user' ? { unlimited: form.unlimited } : {}),
+    }
+
+    try {
+      const response = editingId
+        ? await fetch(`/api/quotas/${editingId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(limits),
+          })
+        : await fetch('/api/quotas', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...limits,
+              ...(form.target === 'role' ? { role: form.role } : { userId: form.userId }),
+            }),
+          })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save quota')
+      } else {
+        cancelEdit()
+        fetchQuotas()
+      }
+    } catch (error) {
+      setError('Failed to save quota')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function deleteQuota(quota: Quota) {
+    const target = quota.user ? `the override of ${quota.user.email}` : `the quota of role "${quota.role}"`
+    if (!confirm(`Are you sure you want to delete ${target}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/quotas/${quota.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        if (editingId === quota.id) cancelEdit()
+        fetchQuotas()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete quota')
+      }
+    } catch (error) {
+      alert('Failed to delete quota')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading quotas...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const roleQuotas = quotas.filter((quota) => quota.role !== null)
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Quotas</h1>
+          </div>
+        </div>
+
+        <AdminNav />
+
+        <p className="mb-4 text-sm text-gray-600">
+          Role quotas apply to every user with the role; an empty limit means no limit. A user override replaces the
+          limits it sets and keeps the role&apos;s for the others. Daily limits reset at midnight UTC, monthly limits on
+          the 1st. Image limits count messages sent with images in the conversation.
+        </p>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Applies to
+                  </th>
+                  {limitColumns.map(({ key, label }) => (
+                    <th
+                      key={key}
+                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {quotas.map((quota) => (
+                  <tr key={quota.id} className={editingId === quota.id ? 'bg-blue-50' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {quota.user ? (
+                        <>
+                          <div className="font-medium">{quota.user.email}</div>
+                          <div className="text-xs text-gray-500">Override, role {quota.user.role}</div>
+                        </>
+                      ) : (
+                        <span className="font-medium">Role: {quota.role}</span>
+                      )}
+                    </td>
+                    {limitColumns.map(({ key }) => {
+                      const inherited = quota.user
+                        ? roleQuotas.find((roleQuota) => roleQuota.role === quota.user?.role)?.[key] ?? null
+                        : null
+                      return (
+                        <td key={key} className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          {quota.unlimited.includes(key) ? (
+                            'No limit'
+                          ) : quota[key] !== null ? (
+                            quota[key]?.toLocaleString()
+                          ) : inherited !== null ? (
+                            <span className="text-gray-400" title="From the role quota">
+                              {inherited.toLocaleString()}
+                            </span>
+                          ) : (
+                            '—'
+                          )}
+                        </td>
+                      )
+                    })}
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => editQuota(quota)}
+                          aria-label="Edit quota"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteQuota(quota)}
+                          aria-label="Delete quota"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {quotas.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No quotas yet; chat usage is unlimited
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={saveQuota} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">{editingId ? 'Edit quota' : 'New quota'}</h2>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-gray-700">
+              Applies to
+              <select
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value as 'role' | 'user' })}
+                disabled={!!editingId}
+                className="mt-1 h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                <option value="role">A role</option>
+                <option value="user">A user (override)</option>
+              </select>
+            </label>
+            {form.target === 'role' ? (
+              <label className="text-sm font-medium text-gray-700">
+                Role
+                <Input
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value })}
+                  disabled={!!editingId}
+                  required
+                  className="mt-1"
+                  placeholder="user"
+                />
+              </label>
+            ) : (
+              <label className="text-sm font-medium text-gray-700">
+                User
+                <select
+                  value={form.userId}
+                  onChange={(e) => setForm({ ...form, userId: e.target.value })}
+                  disabled={!!editingId}
+                  required
+                  className="mt-1 h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+                >
+                  <option value="">Select a user</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.email} ({user.role})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <div />
+            {limitColumns.map(({ key, label }) => (
+              <label key={key} className="text-sm font-medium text-gray-700">
+                {label}
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.unlimited.includes(key) ? '' : form.limits[key]}
+                  onChange={(e) => setForm({ ...form, limits: { ...form.limits, [key]: e.target.value } })}
+                  disabled={form.unlimited.includes(key)}
+                  className="mt-1"
+                  placeholder={form.target === 'user' && !form.unlimited.includes(key) ? 'From role' : 'No limit'}
+                />
+                {form.target === 'user' && (
+                  <span className="mt-1 flex items-center gap-2 font-normal text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={form.unlimited.includes(key)}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          unlimited: e.target.checked
+                            ? [...form.unlimited, key]
+                            : form.unlimited.filter((unlimitedKey) => unlimitedKey !== key),
+                        })
+                      }
+                    />
+                    No limit
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={cancelEdit}>
+                <X className="h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={saving}>
+              {editingId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {saving ? 'Saving...' : editingId ? 'Save quota' : 'Add quota'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+
+interface ComplianceReport {
+  days: number
+  totalMessages: number
+  averageScore: number | null
+  compliantMessages: number
+  repairedMessages: number
+  byModel: {
+    model: string | null
+    messages: number
+    averageScore: number | null
+  }[]
+  sections: {
+    key: string
+    title: string
+    missing: number
+    outOfOrder: number
+  }[]
+}
+
+interface ReferencesReport {
+  days: number
+  totalReferences: number
+  answersWithReferences: number
+  flaggedAnswers: number
+  known: number
+  unknown: number
+  withdrawn: number
+  byModel: {
+    model: string | null
+    references: number
+    known: number
+    unknown: number
+    withdrawn: number
+  }[]
+  topFlagged: {
+    code: string
+    status: 'unknown' | 'withdrawn'
+    replacedBy: string | null
+    count: number
+  }[]
+}
+
+const periods = [7, 30, 90]
+
+function formatScore(score: number | null) {
+  return score === null ? '—' : `${Math.round(score * 100)}%`
+}
+
+function formatShare(count: number, total: number) {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '—'
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</div>
+      <div className="mt-1 text-2xl font-bold">{value}</div>
+    </div>
+  )
+}
+
+export default function AdminReportsPage() {
+  const router = useRouter()
+  const [days, setDays] = useState(30)
+  const [compliance, setCompliance] = useState<ComplianceReport | null>(null)
+  const [references, setReferences] = useState<ReferencesReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchReports(days)
+  }, [days])
+
+  async function fetchReports(period: number) {
+    try {
+      const [response, referencesResponse] = await Promise.all([
+        fetch(`/api/reports/compliance?days=${period}`),
+        fetch(`/api/reports/references?days=${period}`),
+      ])
+      if (response.ok) {
+        setCompliance(await response.json())
+        if (referencesResponse.ok) {
+          setReferences(await referencesResponse.json())
+        }
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load reports')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading reports...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Reports</h1>
+          </div>
+          <div className="flex gap-1">
+            {periods.map((period) => (
+              <Button
+                key={period}
+                variant={days === period ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <AdminNav />
+
+        {compliance && (
+          <section className="mb-10">
+            <h2 className="mb-4 text-xl font-semibold">Answer structure compliance</h2>
+
+            <div className="mb-6 grid gap-4 md:grid-cols-4">
+              <StatCard label="Answers checked" value={compliance.totalMessages} />
+              <StatCard label="Average score" value={formatScore(compliance.averageScore)} />
+              <StatCard
+                label="Fully compliant"
+                value={formatShare(compliance.compliantMessages, compliance.totalMessages)}
+              />
+              <StatCard label="Repaired" value={compliance.repairedMessages} />
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Section
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Missing
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Out of order
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {compliance.sections.map((section) => (
+                      <tr key={section.key}>
+                        <td className="px-6 py-3 text-sm">{section.title}</td>
+                        <td className="px-6 py-3 text-right text-sm">{section.missing}</td>
+                        <td className="px-6 py-3 text-right text-sm">{section.outOfOrder}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Model
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Answers
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Average score
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {compliance.byModel.map((entry) => (
+                      <tr key={entry.model ?? 'unknown'}>
+                        <td className="px-6 py-3 text-sm font-mono">{entry.model ?? 'unknown'}</td>
+                        <td className="px-6 py-3 text-right text-sm">{entry.messages}</td>
+                        <td className="px-6 py-3 text-right text-sm">{formatScore(entry.averageScore)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {compliance.byModel.length === 0 && (
+                  <div className="text-center py-8 text-sm text-gray-500">
+                    No answers in this period
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {references && (
+          <section className="mb-10">
+            <h2 className="mb-4 text-xl font-semibold">Normative references</h2>
+
+            <div className="mb-6 grid gap-4 md:grid-cols-4">
+              <StatCard label="References cited" value={references.totalReferences} />
+              <StatCard label="Unknown" value={formatShare(references.unknown, references.totalReferences)} />
+              <StatCard label="Withdrawn" value={formatShare(references.withdrawn, references.totalReferences)} />
+              <StatCard
+                label="Answers flagged"
+                value={formatShare(references.flaggedAnswers, references.answersWithReferences)}
+              />
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Flagged reference
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Citations
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {references.topFlagged.map((reference) => (
+                      <tr key={reference.code}>
+                        <td className="px-6 py-3 text-sm font-mono">{reference.code}</td>
+                        <td className="px-6 py-3 text-sm">
+                          {reference.status === 'unknown'
+                            ? 'Unknown'
+                            : `Withdrawn${reference.replacedBy ? ` → ${reference.replacedBy}` : ''}`}
+                        </td>
+                        <td className="px-6 py-3 text-right text-sm">{reference.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {references.topFlagged.length === 0 && (
+                  <div className="text-center py-8 text-sm text-gray-500">
+                    No flagged references in this period
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Model
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        References
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Unknown
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Withdrawn
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {references.byModel.map((entry) => (
+                      <tr key={entry.model ?? 'unknown'}>
+                        <td className="px-6 py-3 text-sm font-mono">{entry.model ?? 'unknown'}</td>
+                        <td className="px-6 py-3 text-right text-sm">{entry.references}</td>
+                        <td className="px-6 py-3 text-right text-sm">{formatShare(entry.unknown, entry.references)}</td>
+                        <td className="px-6 py-3 text-right text-sm">{formatShare(entry.withdrawn, entry.references)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {references.byModel.length === 0 && (
+                  <div className="text-center py-8 text-sm text-gray-500">
+                    No references checked in this period
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useEffect, useState, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, Plus, Power, PowerOff, Trash2 } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+
+interface RoutingRule {
+  id: string
+  name: string
+  priority: number
+  enabled: boolean
+  attachmentType: 'image' | 'document' | 'none' | null
+  minMessageLength: number | null
+  maxMessageLength: number | null
+  userRole: string | null
+  conversationProfile: string | null
+  userChoice: string | null
+  model: string
+  fallbackModel: string | null
+}
+
+const emptyForm = {
+  name: '',
+  priority: '100',
+  attachmentType: '',
+  minMessageLength: '',
+  maxMessageLength: '',
+  userRole: '',
+  conversationProfile: '',
+  userChoice: '',
+  model: '',
+  fallbackModel: '',
+}
+
+function describeConditions(rule: RoutingRule): string {
+  const conditions: string[] = []
+  if (rule.attachmentType) conditions.push(`attachment: ${rule.attachmentType}`)
+  if (rule.minMessageLength !== null) conditions.push(`length ≥ ${rule.minMessageLength}`)
+  if (rule.maxMessageLength !== null) conditions.push(`length ≤ ${rule.maxMessageLength}`)
+  if (rule.userRole) conditions.push(`role: ${rule.userRole}`)
+  if (rule.conversationProfile) conditions.push(`profile: ${rule.conversationProfile}`)
+  if (rule.userChoice) conditions.push(`user picks: ${rule.userChoice}`)
+  return conditions.length > 0 ? conditions.join(', ') : 'Always'
+}
+
+export default function AdminRoutingPage() {
+  const router = useRouter()
+  const [rules, setRules] = useState<RoutingRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchRules()
+  }, [])
+
+  async function fetchRules() {
+    try {
+      const response = await fetch('/api/routing-rules')
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules)
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load routing rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function createRule(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setSaving(true)
+
+    const toNumber = (value: string) => (value.trim() ? Number(value) : null)
+
+    try {
+      const response = await fetch('/api/routing-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          priority: Number(form.priority),
+          minMessageLength: toNumber(form.minMessageLength),
+          maxMessageLength: toNumber(form.maxMessageLength),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create rule')
+      } else {
+        setForm(emptyForm)
+        fetchRules()
+      }
+    } catch (error) {
+      setError('Failed to create rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleRule(rule: RoutingRule) {
+    try {
+      const response = await fetch(`/api/routing-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      })
+
+      if (response.ok) {
+        fetchRules()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update rule')
+      }
+    } catch (error) {
+      alert('Failed to update rule')
+    }
+  }
+
+  async function deleteRule(rule: RoutingRule) {
+    if (!confirm(`Are you sure you want to delete the rule "${rule.name}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/routing-rules/${rule.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchRules()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete rule')
+      }
+    } catch (error) {
+      alert('Failed to delete rule')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading routing rules...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Model Routing</h1>
+          </div>
+        </div>
+
+        <AdminNav />
+
+        <p className="mb-4 text-sm text-gray-600">
+          Rules are evaluated by ascending priority; the first rule whose conditions all match picks the model.
+          When no rule matches, images go to the vision model and everything else to the default chat model.
+        </p>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Priority
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Rule
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conditions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Model
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fallback
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={!rule.enabled ? 'bg-gray-50 text-gray-400' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">{rule.priority}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {rule.name}
+                      {!rule.enabled && (
+                        <span className="ml-2 text-xs text-gray-500">(disabled)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm">{describeConditions(rule)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">{rule.model}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                      {rule.fallbackModel || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleRule(rule)}
+                        >
+                          {rule.enabled ? <PowerOff className="h-4 w-4" /> : <Power className="h-4 w-4" />}
+                          {rule.enabled ? 'Disable' : 'Enable'}
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteRule(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {rules.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No routing rules yet
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={createRule} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">New rule</h2>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-gray-700">
+              Name
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className="mt-1"
+                placeholder="Images on GPT-4o"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Model
+              <Input
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                required
+                className="mt-1"
+                placeholder="openai:gpt-4o"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Fallback model
+              <Input
+                value={form.fallbackModel}
+                onChange={(e) => setForm({ ...form, fallbackModel: e.target.value })}
+                className="mt-1"
+                placeholder="local:llama3"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Priority
+              <Input
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                required
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Attachment type
+              <select
+                value={form.attachmentType}
+                onChange={(e) => setForm({ ...form, attachmentType: e.target.value })}
+                className="mt-1 h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                <option value="">Any</option>
+                <option value="image">Image</option>
+                <option value="document">Document</option>
+                <option value="none">No attachment</option>
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              User role
+              <Input
+                value={form.userRole}
+                onChange={(e) => setForm({ ...form, userRole: e.target.value })}
+                className="mt-1"
+                placeholder="Any"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Min. message length
+              <Input
+                type="number"
+                min={0}
+                value={form.minMessageLength}
+                onChange={(e) => setForm({ ...form, minMessageLength: e.target.value })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Max. message length
+              <Input
+                type="number"
+                min={0}
+                value={form.maxMessageLength}
+                onChange={(e) => setForm({ ...form, maxMessageLength: e.target.value })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Conversation profile
+              <Input
+                value={form.conversationProfile}
+                onChange={(e) => setForm({ ...form, conversationProfile: e.target.value })}
+                className="mt-1"
+                placeholder="Any"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              User choice
+              <Input
+                value={form.userChoice}
+                onChange={(e) => setForm({ ...form, userChoice: e.target.value })}
+                className="mt-1"
+                placeholder="Shown in the model picker"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              <Plus className="h-4 w-4" />
+              {saving ? 'Saving...' : 'Add rule'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import { useEffect, useRef, useState, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, Search, Trash2, Upload } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
+
+interface Standard {
+  id: string
+  code: string
+  title: string
+  edition: string | null
+  status: 'current' | 'withdrawn'
+  replacedBy: string | null
+  _count: {
+    references: number
+  }
+}
+
+interface ImportResult {
+  created: number
+  updated: number
+  errors: { line: number; error: string }[]
+}
+
+const statusConfig = {
+  current: { bg: 'bg-green-100', text: 'text-green-800', label: 'Current' },
+  withdrawn: { bg: 'bg-red-100', text: 'text-red-800', label: 'Withdrawn' },
+}
+
+export default function AdminStandardsPage() {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [standards, setStandards] = useState<Standard[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [query, setQuery] = useState('')
+  const [status, setStatus] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchStandards()
+  }, [status])
+
+  async function fetchStandards() {
+    try {
+      const params = new URLSearchParams()
+      if (query) params.set('q', query)
+      if (status) params.set('status', status)
+
+      const response = await fetch(`/api/standards?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setStandards(data.standards)
+        setTotal(data.total)
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/')
+      }
+    } catch (error) {
+      alert('Failed to load standards')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function search(e: FormEvent) {
+    e.preventDefault()
+    fetchStandards()
+  }
+
+  async function importCsv(e: FormEvent) {
+    e.preventDefault()
+    const file = fileInputRef.current?.files?.[0]
+    if (!file) return
+
+    setError('')
+    setImportResult(null)
+    setImporting(true)
+
+    const formData = new FormData()
+    formData.append('file', file)
+
+    try {
+      const response = await fetch('/api/standards/import', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to import standards')
+        setImportResult(data.errors ? { created: 0, updated: 0, errors: data.errors } : null)
+      } else {
+        setImportResult(data)
+        if (fileInputRef.current) fileInputRef.current.value = ''
+        fetchStandards()
+      }
+    } catch (error) {
+      setError('Failed to import standards')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  async function deleteStandard(standard: Standard) {
+    if (!confirm(`Are you sure you want to delete ${standard.code}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/standards/${standard.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchStandards()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete standard')
+      }
+    } catch (error) {
+      alert('Failed to delete standard')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading standards...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Button>
+            <h1 className="text-3xl font-bold">Standards</h1>
+          </div>
+        </div>
+
+        <AdminNav />
+
+        <p className="mb-4 text-sm text-gray-600">
+          The standards cited in the "Références normatives" section of each answer are checked against this registry.
+          Unknown and withdrawn references are flagged in the chat and counted in the reports.
+        </p>
+
+        <form onSubmit={importCsv} className="bg-white rounded-lg shadow p-6 space-y-4 mb-8">
+          <h2 className="text-lg font-semibold">Import from CSV</h2>
+          <p className="text-sm text-gray-600">
+            Header row with <span className="font-mono">code</span>, <span className="font-mono">title</span> and
+            optionally <span className="font-mono">edition</span>, <span className="font-mono">status</span> (current
+            or withdrawn) and <span className="font-mono">replacedBy</span>; comma or semicolon separated. Each edition
+            is a row of its own (<span className="font-mono">ISO 9001:2008</span> or an edition column); rows with an
+            existing code and edition are updated.
+          </p>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {importResult && (
+            <div className="rounded-md bg-gray-50 p-3 text-sm">
+              <div>
+                {importResult.created} created, {importResult.updated} updated
+                {importResult.errors.length > 0 && `, ${importResult.errors.length} lines rejected`}
+              </div>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-red-800">
+                  {importResult.errors.map((lineError) => (
+                    <li key={lineError.line}>
+                      Line {lineError.line}: {lineError.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-end gap-4">
+            <label className="flex-1 text-sm font-medium text-gray-700">
+              CSV file
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                required
+                className="mt-1"
+              />
+            </label>
+            <Button type="submit" disabled={importing}>
+              <Upload className="h-4 w-4" />
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={search} className="mb-4 flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by code or title"
+            className="max-w-sm bg-white"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="h-9 rounded-md border border-input bg-white px-3 text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="current">Current</option>
+            <option value="withdrawn">Withdrawn</option>
+          </select>
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Title
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Edition
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Citations
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {standards.map((standard) => {
+                  const config = statusConfig[standard.status] ?? statusConfig.current
+
+                  return (
+                    <tr key={standard.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">{standard.code}</td>
+                      <td className="px-6 py-4 text-sm">{standard.title}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{standard.edition || '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span
+                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${config.bg} ${config.text}`}
+                        >
+                          {config.label}
+                        </span>
+                        {standard.replacedBy && (
+                          <div className="mt-1 text-xs text-gray-500">→ {standard.replacedBy}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">{standard._count.references}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteStandard(standard)}
+                          aria-label={`Delete ${standard.code}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {standards.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No standards found
+            </div>
+          )}
+          {total > standards.length && (
+            <div className="border-t px-6 py-3 text-sm text-gray-500">
+              Showing {standards.length} of {total} standards; refine the search to see the others
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
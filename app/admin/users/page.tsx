@@ -3,7 +3,8 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, UserCheck, UserX, Trash2 } from 'lucide-react'
+import { ArrowLeft, BarChart3, UserCheck, UserX, Trash2 } from 'lucide-react'
+import { AdminNav } from '@/components/admin-nav'
 
 interface User {
   id: string
@@ -137,6 +138,8 @@ export default function AdminUsersPage() {
           </div>
         </div>
 
+        <AdminNav />
+
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
@@ -207,6 +210,14 @@ export default function AdminUsersPage() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => router.push(`/usage?userId=${user.id}`)}
+                            aria-label={`Usage of ${user.email}`}
+                          >
+                            <BarChart3 className="h-4 w-4" />
+                          </Button>
                           {currentUser?.id !== user.id && (
                             <>
                               {user.status !== 'active' && (
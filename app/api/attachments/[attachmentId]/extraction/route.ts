@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { findAttachment, getAttachmentExtraction } from '@/lib/attachments'
+import { toExtractionSummary } from '@/lib/document-extraction'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/attachments/[attachmentId]/extraction - Page count and preview of a document attachment
+ * Returns { extraction } without the text itself, or { extraction: null } for images and
+ * documents without readable text
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ attachmentId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { attachmentId } = await context.params
+
+    const attachment = await findAttachment(attachmentId, user.id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const extraction = await getAttachmentExtraction(attachment)
+    return NextResponse.json(
+      { extraction: extraction ? toExtractionSummary(extraction) : null },
+      { headers: { 'Cache-Control': 'private, max-age=3600' } }
+    )
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Failed to fetch attachment extraction:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment extraction' },
+      { status: 500 }
+    )
+  }
+}
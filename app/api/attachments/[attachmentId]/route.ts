@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import {
+  deleteAttachmentFiles,
+  findAttachment,
+  getAttachmentCacheHeaders,
+  readAttachment,
+} from '@/lib/attachments'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/attachments/[attachmentId] - Download a file sent with one of the user's messages
+ * Served with private, immutable caching headers; other users' attachments answer 404
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ attachmentId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { attachmentId } = await context.params
+
+    const attachment = await findAttachment(attachmentId, user.id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const etag = `"${attachment.id}"`
+    const cacheHeaders = getAttachmentCacheHeaders(etag)
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders })
+    }
+
+    const data = await readAttachment(attachment)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const filename = attachment.filename ?? attachment.id
+    return new Response(new Uint8Array(data), {
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Last-Modified': attachment.createdAt.toUTCString(),
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/attachments/[attachmentId] - Discard an upload removed from the composer
+ * Only attachments not sent with a message yet can be deleted; others answer 409
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ attachmentId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { attachmentId } = await context.params
+
+    const attachment = await findAttachment(attachmentId, user.id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    // The message check is part of the delete, so a message sent meanwhile keeps its file
+    const { count } = await prisma.attachment.deleteMany({
+      where: { id: attachment.id, messageId: null },
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'The attachment was sent with a message' },
+        { status: 409 }
+      )
+    }
+    await deleteAttachmentFiles([attachment])
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Failed to delete attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    )
+  }
+}
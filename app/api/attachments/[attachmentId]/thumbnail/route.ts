@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import {
+  findAttachment,
+  getAttachmentCacheHeaders,
+  readAttachment,
+  readAttachmentThumbnail,
+} from '@/lib/attachments'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/attachments/[attachmentId]/thumbnail - Preview of an image attachment (WebP, 256 px)
+ * Images stored without a preview are served whole; other files answer 404
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ attachmentId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { attachmentId } = await context.params
+
+    const attachment = await findAttachment(attachmentId, user.id)
+    if (!attachment || !attachment.contentType.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'Thumbnail not found' },
+        { status: 404 }
+      )
+    }
+
+    const etag = `"${attachment.id}-thumbnail"`
+    const cacheHeaders = getAttachmentCacheHeaders(etag)
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders })
+    }
+
+    const thumbnail = await readAttachmentThumbnail(attachment)
+    const data = thumbnail ?? (await readAttachment(attachment))
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Thumbnail not found' },
+        { status: 404 }
+      )
+    }
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': thumbnail ? 'image/webp' : attachment.contentType,
+        'Content-Length': String(data.length),
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch thumbnail' },
+      { status: 500 }
+    )
+  }
+}
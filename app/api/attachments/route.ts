@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { getAttachmentUrl, storeAttachment } from '@/lib/attachments'
+import { normalizeImage, sniffMimeType } from '@/lib/image-pipeline'
+import {
+  DOCUMENT_CONTENT_TYPES,
+  extractDocument,
+  toExtractionSummary,
+  type DocumentExtraction,
+} from '@/lib/document-extraction'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/attachments - Upload a file to send with the next message
+ * Multipart form: file (an image, or a PDF, Word, Excel or CSV document)
+ * Images are normalized and documents extracted right away, so the composer can show their
+ * page count and preview; the message then refers to the attachment by its URL.
+ * Returns { attachment: { id, url, contentType, filename, size, extraction } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      )
+    }
+
+    const data = Buffer.from(await file.arrayBuffer())
+    const isImage = file.type.startsWith('image/') || Boolean(sniffMimeType(data)?.startsWith('image/'))
+
+    let stored: { data: Buffer; contentType: string; extraction: DocumentExtraction | null }
+    if (isImage) {
+      const { data: image, error } = await normalizeImage(data, file.name)
+      if (!image) {
+        return NextResponse.json({ error, code: 'invalid_attachment' }, { status: 400 })
+      }
+      stored = { data: image.data, contentType: image.contentType, extraction: null }
+    } else {
+      const { data: extraction, error } = await extractDocument(data, { mediaType: file.type, filename: file.name })
+      if (!extraction) {
+        return NextResponse.json({ error, code: 'invalid_attachment' }, { status: 400 })
+      }
+      stored = { data, contentType: DOCUMENT_CONTENT_TYPES[extraction.kind], extraction }
+    }
+
+    // Not in a conversation yet: the message that sends it links it
+    const attachment = await storeAttachment({
+      userId: user.id,
+      conversationId: null,
+      data: stored.data,
+      contentType: stored.contentType,
+      filename: file.name,
+      extraction: stored.extraction,
+    })
+
+    return NextResponse.json({
+      attachment: {
+        ...attachment,
+        url: getAttachmentUrl(attachment.id),
+        size: stored.data.length,
+        extraction: stored.extraction ? toExtractionSummary(stored.extraction) : null,
+      },
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Failed to upload attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
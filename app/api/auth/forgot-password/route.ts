@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { sendPasswordResetEmail } from '@/lib/email'
 import crypto from 'crypto'
+import { checkRateLimits, getAccountKey, getClientIp, getRateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit'
 
 export const runtime = 'nodejs'
 
@@ -27,6 +28,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Limit reset emails per client address and per account
+    const rateLimit = await checkRateLimits([
+      { name: 'forgot-password:ip', subject: getClientIp(request) },
+      { name: 'forgot-password:ip-account', subject: getAccountKey(request, email) },
+    ])
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit)
+    }
+    const headers = getRateLimitHeaders(rateLimit)
+
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -39,7 +50,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'If an account with that email exists, we\'ve sent you a password reset link.',
-      })
+      }, { headers })
     }
 
     // Check if user is active (only active users can reset password)
@@ -48,7 +59,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'If an account with that email exists, we\'ve sent you a password reset link.',
-      })
+      }, { headers })
     }
 
     // Generate secure reset token
@@ -93,7 +104,7 @@ export async function POST(request: NextRequest) {
       console.error('Failed to send password reset email:', emailError)
       return NextResponse.json(
         { error: 'Failed to send password reset email. Please try again later.' },
-        { status: 500 }
+        { status: 500, headers }
       )
     }
 
@@ -101,7 +112,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'If an account with that email exists, we\'ve sent you a password reset link.',
-    })
+    }, { headers })
   } catch (error) {
     console.error('Error in forgot-password:', error)
     return NextResponse.json(
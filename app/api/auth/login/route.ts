@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import bcrypt from 'bcryptjs'
 import { createSession, setSessionCookie } from '@/lib/session'
+import { checkRateLimits, getAccountKey, getClientIp, getRateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit'
 
 export const runtime = 'nodejs'
 
@@ -18,6 +19,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Slow down password guessing, per client address and per account from that address
+    const rateLimit = await checkRateLimits([
+      { name: 'login:ip', subject: getClientIp(request) },
+      { name: 'login:ip-account', subject: getAccountKey(request, email) },
+    ])
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit)
+    }
+    const headers = getRateLimitHeaders(rateLimit)
+
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -27,7 +38,7 @@ export async function POST(request: NextRequest) {
     if (!user) {
       return NextResponse.json(
         { error: 'Invalid email or password' },
-        { status: 401 }
+        { status: 401, headers }
       )
     }
 
@@ -35,14 +46,14 @@ export async function POST(request: NextRequest) {
     if (user.status === 'disabled') {
       return NextResponse.json(
         { error: 'Account has been disabled' },
-        { status: 403 }
+        { status: 403, headers }
       )
     }
 
     if (user.status === 'suspended') {
       return NextResponse.json(
         { error: 'Account has been suspended' },
-        { status: 403 }
+        { status: 403, headers }
       )
     }
 
@@ -52,7 +63,7 @@ export async function POST(request: NextRequest) {
     if (!isPasswordValid) {
       return NextResponse.json(
         { error: 'Invalid email or password' },
-        { status: 401 }
+        { status: 401, headers }
       )
     }
 
@@ -71,7 +82,7 @@ export async function POST(request: NextRequest) {
         name: user.name,
         role: user.role,
       },
-    })
+    }, { headers })
   } catch (error) {
     return NextResponse.json(
       { error: 'An error occurred during login' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import bcrypt from 'bcryptjs'
 import { createSession, setSessionCookie } from '@/lib/session'
+import { checkRateLimits, getClientIp, getRateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit'
 
 export const runtime = 'nodejs'
 
@@ -35,6 +36,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Limit account creation per client address (this also slows down email enumeration); when
+    // addresses are unknown (no trusted proxy), all signups share one allowance
+    const clientIp = getClientIp(request)
+    const rateLimit = await checkRateLimits([
+      { name: 'signup:ip', subject: clientIp },
+      { name: 'signup:global', subject: clientIp ? null : 'all' },
+    ])
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit)
+    }
+    const headers = getRateLimitHeaders(rateLimit)
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -43,7 +56,7 @@ export async function POST(request: NextRequest) {
     if (existingUser) {
       return NextResponse.json(
         { error: 'An account with this email already exists' },
-        { status: 409 }
+        { status: 409, headers }
       )
     }
 
@@ -76,7 +89,7 @@ export async function POST(request: NextRequest) {
         name: user.name,
         role: user.role,
       },
-    })
+    }, { headers })
   } catch (error) {
     return NextResponse.json(
       { error: 'An error occurred during signup' },
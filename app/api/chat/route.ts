@@ -1,45 +1,69 @@
-import { openai } from "@ai-sdk/openai";
-import { streamText, convertToModelMessages } from "ai";
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
 import { requireAuth } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
-
-// Strict response format system prompt
-const SYSTEM_PROMPT = `Tu es un assistant technique spécialisé. Tu dois TOUJOURS répondre en suivant cette structure exacte :
-
-**1. Résumé (2 lignes maximum)**
-Une synthèse claire et concise de la réponse.
-
-**2. Analyse technique**
-Détails techniques pertinents, concepts clés, et contexte nécessaire.
-
-**3. Références normatives**
-Standards, normes, bonnes pratiques, ou documentation officielle applicables.
-
-**4. Logique / Schéma (texte)**
-Explication de la logique, du flux de travail, ou de l'architecture (en format texte/pseudo-code).
-
-**5. Solutions / Recommandations**
-Solutions concrètes, étapes à suivre, ou recommandations actionnables.
-
-**6. Points de vigilance**
-Risques, limitations, pièges à éviter, ou considérations importantes.
-
-**7. Version courte** (si pertinent)
-Résumé ultra-concis pour référence rapide (optionnel selon le contexte).
-
-IMPORTANT: 
-- Tu dois respecter cette structure pour TOUTES les réponses, sans exception. Ne fournis jamais de réponses non structurées.
-- Tu PEUX et DOIS analyser des images. Quand un utilisateur envoie une image, tu DOIS l'analyser en détail et fournir une réponse structurée selon le format ci-dessus.
-- Si un message contient une image, analyse-la complètement et décris ce que tu vois dans ta réponse.`;
+import { getChatStopCondition, getChatTools } from '@/lib/chat-tools'
+import {
+  createRoutedModel,
+  getAttachmentKinds,
+  getMessageText,
+  getMessageTextLength,
+  selectModelRoute,
+} from '@/lib/model-routing'
+import {
+  formatKnowledgeContext,
+  searchKnowledgeBase,
+  toCitations,
+  type KnowledgeSource,
+} from '@/lib/knowledge-base'
+import { getActivePrompt, SYSTEM_PROMPT_TEMPLATE } from '@/lib/prompts'
+import { getSectionRecords, validateResponseStructure } from '@/lib/response-structure'
+import { getReferenceRecords } from '@/lib/standards'
+import { repairMessageIfNeeded } from '@/lib/structure-repair'
+import { recordUsage, sumUsage } from '@/lib/usage'
+import { describeQuotaExceeded, releaseQuotaReservation, reserveQuota } from '@/lib/quotas'
+import { checkRateLimits, getClientIp, getRateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit'
+import {
+  findConversationMessage,
+  getNewMessageId,
+  linkLegacyMessages,
+  type MessageStatus,
+} from '@/lib/message-tree'
+import { bufferGeneration, discardGeneration, registerGeneration } from '@/lib/stream-buffer'
+import { getInitialTitle, refreshConversationTitle } from '@/lib/conversation-titles'
+import { checkMessageDocuments, hasInlineDocuments, resolveMessageFiles, toAttachmentPart } from '@/lib/attachments'
+import { normalizeMessageImages } from '@/lib/image-pipeline'
+import crypto from 'crypto'
 
 export async function POST(req: Request) {
+  // Answer reserved against the user's quota, released if the request fails before it's accounted
+  let quotaReservationId: string | null = null;
+  // Generation registered for this request, discarded if the request fails before it's buffered
+  let unbufferedGeneration: { conversationId: string; messageId: string } | null = null;
   try {
     // Verify user is authenticated
     const user = await requireAuth()
 
+    // Throttle bursts per client address and per user, before any work is done
+    const rateLimit = await checkRateLimits([
+      { name: 'chat:ip', subject: getClientIp(req) },
+      { name: 'chat:user', subject: user.id },
+    ]);
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     // Parse request body
     const body = await req.json();
-    const { messages, conversationId }: { messages: any[]; conversationId?: string | null } = body;
+    const {
+      messages,
+      conversationId,
+      model: requestedModel,
+    }: { messages: any[]; conversationId?: string | null; model?: string | null } = body;
     
 
     // Validate messages
@@ -50,6 +74,28 @@ export async function POST(req: Request) {
       )
     }
 
+    // Files of the new message are checked, and its images normalized (real format, no
+    // EXIF/GPS, downscaled), before anything is saved or sent to the model
+    const newMessage = messages[messages.length - 1];
+    if (newMessage?.role === 'user' && Array.isArray(newMessage.parts)) {
+      const normalized = await normalizeMessageImages(newMessage.parts);
+      if (!normalized.data) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid attachment', code: 'invalid_attachment', message: normalized.error }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      // Other files must be documents we can read (PDF, Word, Excel, CSV)
+      const documentError = checkMessageDocuments(normalized.data);
+      if (documentError) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid attachment', code: 'invalid_attachment', message: documentError }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      messages[messages.length - 1] = { ...newMessage, parts: normalized.data };
+    }
+
     // CRITICAL: Convert UI messages to Model messages first
     // This handles the conversion from assistant-ui format (UIMessage[]) to AI SDK format (ModelMessage[])
     // Must be done early, before any processing
@@ -65,65 +111,46 @@ export async function POST(req: Request) {
       convertedMessages = messages;
     }
 
-    // Helper function to convert image to base64 format expected by OpenAI
-    const convertImageToBase64 = async (imageInput: any): Promise<string | null> => {
-      try {
-        // If it's already a base64 string with data URL prefix, return as-is
-        if (typeof imageInput === 'string') {
-          // Check for data URL format (data:image/...;base64,...)
-          if (imageInput.startsWith('data:image/')) {
-            return imageInput;
-          }
-          // If it's an external URL, OpenAI can handle it directly
-          if (imageInput.startsWith('http://') || imageInput.startsWith('https://')) {
-            return imageInput;
-          }
-          // If it's a blob URL (blob:http://...), we can't process it server-side
-          // This shouldn't happen if assistant-ui is working correctly
-          if (imageInput.startsWith('blob:')) {
-            return null;
-          }
-          // If it's a long string, likely base64 without prefix
-          // Try to detect if it's valid base64 (alphanumeric + / + =)
-          if (imageInput.length > 100 && /^[A-Za-z0-9+/=\s]+$/.test(imageInput.replace(/\s/g, ''))) {
-            // Remove any whitespace
-            const cleanBase64 = imageInput.replace(/\s/g, '');
-            // Try to detect MIME type from common patterns or default to jpeg
-            let mimeType = 'image/jpeg';
-            // Could add more sophisticated detection here if needed
-            return `data:${mimeType};base64,${cleanBase64}`;
-          }
-          return null;
-        }
-        // If it's an object with image data
-        if (imageInput && typeof imageInput === 'object') {
-          // Check if it has arrayBuffer method (File-like object)
-          if ('arrayBuffer' in imageInput && typeof imageInput.arrayBuffer === 'function') {
-            const arrayBuffer = await imageInput.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            const base64 = buffer.toString('base64');
-            const mimeType = imageInput.type || 'image/jpeg';
-            return `data:${mimeType};base64,${base64}`;
-          }
-          // Check if it has a data property
-          if ('data' in imageInput && typeof imageInput.data === 'string') {
-            return await convertImageToBase64(imageInput.data);
-          }
-        }
-        return null;
-      } catch (error) {
-        return null;
-      }
-    };
-
     // After convertToModelMessages, messages are already in ModelMessage format
     // convertToModelMessages() handles all the conversion correctly, so we can use them directly
     // Just filter out any null/undefined messages
     const validMessages = convertedMessages.filter(msg => msg != null && msg.role);
+    const attachmentKinds = getAttachmentKinds(validMessages);
+
+    // Enforce the user's quota before anything is saved or sent to the model; the answer is
+    // reserved right away so concurrent requests can't all pass the check
+    const { exceeded: exceededQuota, reservationId } = await reserveQuota(user, {
+      imageRequest: attachmentKinds.has('image'),
+    });
+    quotaReservationId = reservationId ?? null;
+    if (exceededQuota) {
+      const retryAfter = Math.max(1, Math.ceil((Date.parse(exceededQuota.resetAt) - Date.now()) / 1000));
+      return new Response(
+        JSON.stringify({
+          error: 'Quota exceeded',
+          code: 'quota_exceeded',
+          message: describeQuotaExceeded(exceededQuota),
+          quota: exceededQuota,
+          resetAt: exceededQuota.resetAt,
+        }),
+        {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+        }
+      )
+    }
 
     // Get or create conversation
     // Only create a new conversation if we have messages to save
-    let conversation: { id: string; userId: string } | null = null;
+    let conversation: {
+      id: string;
+      userId: string;
+      title: string | null;
+      modelProfile: string | null;
+      activeMessageId: string | null;
+    } | null = null;
+    // Set when this request creates the conversation; the stream tells the client its id
+    let conversationCreated = false;
     if (conversationId) {
       // Verify the conversation belongs to the user
       conversation = await prisma.conversation.findFirst({
@@ -145,42 +172,36 @@ export async function POST(req: Request) {
       // Get the last user message for title generation
       const lastUserMessage = validMessages.filter(m => m.role === 'user').pop();
       
-      let title = 'New Conversation';
-      if (lastUserMessage) {
-        if (typeof lastUserMessage.content === 'string') {
-          title = lastUserMessage.content.slice(0, 50);
-        } else if (Array.isArray(lastUserMessage.content)) {
-          // Extract text from content array
-          const textPart = lastUserMessage.content.find((p: any) => p && p.type === 'text');
-          if (textPart && textPart.text) {
-            title = String(textPart.text).slice(0, 50);
-          }
-        }
-      }
-      
+      // Named after the first question until the title model names it after the first answer
       conversation = await prisma.conversation.create({
         data: {
           userId: user.id,
-          title: title.length > 50 ? title.slice(0, 50) : title,
+          title: getInitialTitle(getMessageText(lastUserMessage)),
         },
       });
+      conversationCreated = true;
     }
 
+    // Parent of the answer in the message tree: the user message saved below, or the saved
+    // question the client regenerates an answer for
+    let answerParentId: Promise<string | null> = Promise.resolve(null);
+
     // Only save messages if we have a conversation
     // This prevents creating empty conversations when clicking "New Chat"
     if (conversation) {
+      const activeConversation = conversation;
       // Get the last message from the ORIGINAL messages array (before processing)
       // This ensures we capture images in their original format
       const lastOriginalMessage = messages[messages.length - 1];
       const lastProcessedMessage = validMessages[validMessages.length - 1];
-      let userMessageContent = '';
+      // Content of the user message to save: the text, or its parts as sent when it has files
+      let userMessageContent: string | any[] = '';
       
       if (lastProcessedMessage && lastProcessedMessage.role === 'user') {
-        // Always prefer original message parts if available (they have the raw image data)
-        // This ensures we capture images before any processing that might lose data
-        let messageToSave = lastProcessedMessage;
+        userMessageContent = lastProcessedMessage.content;
         
-        // Check if original message has parts with images
+        // Prefer the original parts when they carry files: they have them as the client sent
+        // them (data URLs, or attachment URLs when an edited message sends them back)
         if (lastOriginalMessage && 'parts' in lastOriginalMessage && Array.isArray(lastOriginalMessage.parts)) {
           // Check for both 'image' and 'file' types (assistant-ui sends 'file' type with url)
           const originalHasImages = lastOriginalMessage.parts.some((p: any) => 
@@ -188,129 +209,378 @@ export async function POST(req: Request) {
           );
           
           if (originalHasImages) {
-            // Use original parts - they have the image data we need
-            // Convert original parts to content format for saving
-            const contentForSaving = await Promise.all(
-              lastOriginalMessage.parts.map(async (part: any) => {
-              if (part.type === 'text') {
-                  return { type: 'text', text: part.text || '' };
-              } else if (part.type === 'image' || part.type === 'file') {
-                  // Image is already in base64 data URL format from frontend
-                  // assistant-ui sends 'file' type with 'url' property
-                  const imageData = part.url || part.image || part.data || part.src;
-                  if (imageData) {
-                    // Ensure it's in base64 format (should already be from frontend)
-                    const base64Image = await convertImageToBase64(imageData);
-                    if (base64Image) {
-                return {
-                  type: 'image_url',
-                  image_url: {
-                          url: base64Image,
-                  },
-                };
-                    }
-                  }
-              }
-              return null;
-              })
-            );
-            
-            const filteredContent = contentForSaving.filter(Boolean);
-            if (filteredContent.length > 0) {
-            messageToSave = {
-              role: lastOriginalMessage.role,
-                content: filteredContent,
-              };
-            }
+            userMessageContent = lastOriginalMessage.parts;
           }
         }
+      }
+
+      // Files go to the attachment storage and the saved content refers to them by id, so
+      // message fetches don't carry base64 images
+      const toStoredContent = async (
+        content: string | any[],
+        conversationId: string
+      ): Promise<{ content: string; attachmentIds: string[] }> => {
+        if (typeof content === 'string') return { content, attachmentIds: [] };
         
-        // Save the full message content including images
-        if (typeof messageToSave.content === 'string') {
-          userMessageContent = messageToSave.content;
-        } else if (Array.isArray(messageToSave.content)) {
-          // Save the full content array including images as JSON
-          userMessageContent = JSON.stringify(messageToSave.content);
-        }
+        const attachmentIds: string[] = [];
+        const parts = await Promise.all(
+          content.map(async (part: any) => {
+            if (part?.type === 'text') {
+              return { type: 'text', text: part.text || '' };
+            }
+            if (part?.type !== 'image' && part?.type !== 'file') return null;
+            
+            // Data URLs (normalized above) are stored, attachment URLs reused
+            const fileUrl = part.url || part.image;
+            if (typeof fileUrl !== 'string') return null;
+            
+            const attachmentPart = await toAttachmentPart(fileUrl, {
+              userId: user.id,
+              conversationId,
+              mediaType: part.mediaType,
+              filename: part.filename,
+            });
+            if (attachmentPart) {
+              attachmentIds.push(attachmentPart.attachmentId);
+              return attachmentPart;
+            }
+            // External image URLs are kept as links
+            return /^https?:\/\//.test(fileUrl) ? { type: 'image_url', image_url: { url: fileUrl } } : null;
+          })
+        );
         
-        // Save user message to database (non-blocking for better performance)
-        if (userMessageContent) {
-          // Don't await - let it save in background to improve response time
-          prisma.message.create({
-            data: {
-              conversationId: conversation.id,
-              role: 'user',
-              content: userMessageContent,
-            },
-          }).catch(() => {
-            // Silently handle save errors
+        const storedParts = parts.filter(Boolean);
+        return {
+          content: storedParts.length > 0 ? JSON.stringify(storedParts) : '',
+          attachmentIds,
+        };
+      };
+
+      // Save user message to database (non-blocking for better performance)
+      // Don't await - let it save in background to improve response time
+      answerParentId = (async () => {
+        let activeMessageId = activeConversation.activeMessageId;
+        if (conversationId && activeMessageId === null) {
+          activeMessageId = await linkLegacyMessages(activeConversation.id);
+        }
+
+        // Regenerating an answer: the question is already saved. It becomes the head until the
+        // new answer is saved, so a reload during the generation reattaches to it
+        const existingMessage = await findConversationMessage(activeConversation.id, lastOriginalMessage?.id);
+        if (existingMessage) {
+          await prisma.conversation.update({
+            where: { id: activeConversation.id },
+            data: { activeMessageId: existingMessage.id },
           });
+          return existingMessage.id;
         }
-      }
+        if (!userMessageContent) return activeMessageId;
+
+        // The new message follows the previous one in the branch the client sent, so an edited
+        // question becomes a sibling of the original
+        const previousMessage = await findConversationMessage(
+          activeConversation.id,
+          messages[messages.length - 2]?.id
+        );
+        const { content, attachmentIds } = await toStoredContent(userMessageContent, activeConversation.id);
+        if (!content) return activeMessageId;
+        const userMessage = await prisma.message.create({
+          data: {
+            id: await getNewMessageId(lastOriginalMessage?.id),
+            conversationId: activeConversation.id,
+            parentId: previousMessage?.id ?? (messages.length > 1 ? activeMessageId : null),
+            role: 'user',
+            content,
+          },
+        });
+        // New files (inline or uploaded beforehand) belong to this message; files an edit
+        // sends back stay with the original
+        await prisma.attachment.updateMany({
+          where: { id: { in: attachmentIds }, messageId: null },
+          data: { messageId: userMessage.id, conversationId: activeConversation.id },
+        });
+        await prisma.conversation.update({
+          where: { id: activeConversation.id },
+          data: { activeMessageId: userMessage.id },
+        });
+        return userMessage.id;
+      })().catch(() => {
+        // Silently handle save errors
+        return null;
+      });
     }
 
     // After convertToModelMessages, the messages are already in correct ModelMessage format
     // Filter out system messages from user input (we'll add our own system message)
     // Filter out any null/undefined messages
-    const modelMessages = validMessages.filter((msg: any) => {
-      if (!msg || !msg.role) return false;
-      if (msg.role === 'system') return false; // Don't include system messages from user input
-      return true;
-    });
+    // The question as typed, before documents are added to it as text
+    const question = getMessageText(validMessages.filter((m: any) => m.role === 'user').pop());
+    // Inline documents of the new message are stored first, long ones with their passages
+    // embedded, so that this answer and the next ones use the stored passages
+    const lastParts = messages[messages.length - 1]?.parts;
+    if (Array.isArray(lastParts) && hasInlineDocuments(lastParts)) await answerParentId;
+    // Files of earlier messages come back as attachment URLs, which the model gets as bytes;
+    // documents are given as their extracted text
+    const modelMessages = await resolveMessageFiles(
+      validMessages.filter((msg: any) => {
+        if (!msg || !msg.role) return false;
+        if (msg.role === 'system') return false; // Don't include system messages from user input
+        return true;
+      }),
+      { userId: user.id, conversationId: conversation?.id ?? null, question }
+    );
 
     // Build messages for AI with system prompt at the beginning
+    // The system prompt is the published version from the admin prompt library
     // convertToModelMessages already ensures correct format, so we can use them directly
+    const systemPrompt = await getActivePrompt(SYSTEM_PROMPT_TEMPLATE);
+    const lastUserModelMessage = modelMessages.filter((m: any) => m.role === 'user').pop();
+
+    // Ground the answer in the knowledge base: the closest passages follow the system prompt,
+    // each with a source id ([S1], [S2]...) the model cites
+    let knowledgeSources: KnowledgeSource[] = [];
+    try {
+      knowledgeSources = await searchKnowledgeBase(question, {
+        userId: user.id,
+        conversationId: conversation?.id ?? null,
+      });
+    } catch (error) {
+      console.error('Knowledge base retrieval failed:', error);
+    }
+    const citations = toCitations(knowledgeSources);
+
     const allMessages = [
-      { role: 'system' as const, content: SYSTEM_PROMPT },
+      { role: 'system' as const, content: systemPrompt.content },
+      ...(knowledgeSources.length > 0
+        ? [{ role: 'system' as const, content: formatKnowledgeContext(knowledgeSources) }]
+        : []),
       ...modelMessages,
     ];
 
-    // Check if any message has images to determine which model to use
-    const hasImagesInAnyMessage = allMessages.some((msg: any) => 
-      Array.isArray(msg.content) && 
-      msg.content.some((c: any) => c.type === 'image_url' && c.image_url?.url)
-    );
-    
-    // Use gpt-4o for vision support, gpt-4o-mini for text-only (cost optimization)
-    const modelName = hasImagesInAnyMessage ? "gpt-4o" : "gpt-4o-mini";
+    // Pick the model through the admin-defined routing policy
+    // (attachments, message length, user role, conversation profile, explicit user choice)
+    const route = await selectModelRoute({
+      attachmentKinds,
+      messageLength: getMessageTextLength(lastUserModelMessage),
+      userRole: user.role,
+      conversationProfile: conversation?.modelProfile ?? null,
+      userChoice: typeof requestedModel === 'string' && requestedModel ? requestedModel : null,
+    });
+    const { model, getModelId } = await createRoutedModel(route);
+    const usageContext = { userId: user.id, conversationId: conversation?.id ?? null };
+    const startedAt = Date.now();
+    // The streamed answer carries the id it's saved under, so the client can branch from it
+    const assistantMessageId = crypto.randomUUID();
+    // Saved answers are buffered so a reloaded client can resume them and outlive the request:
+    // the stop button aborts them through DELETE /api/conversations/[id]/stream
+    const abortSignal = conversation
+      ? registerGeneration({ conversationId: conversation.id, messageId: assistantMessageId, userId: user.id })
+      : req.signal;
+    if (conversation) {
+      unbufferedGeneration = { conversationId: conversation.id, messageId: assistantMessageId };
+    }
     
+    // Text of the finished steps and of the step in progress, so an answer cut short by the
+    // stop button, a disconnect or an error is saved as far as it went
+    const stepTexts: string[] = [];
+    let currentStepText = '';
+    const joinStepTexts = (texts: string[]) => texts.filter((stepText) => stepText.trim()).join('\n\n');
+    let answerSaved = false;
+    // Settles once the answer is saved and a title due is being written, so the client's
+    // request for the new title (GET /api/conversations/<id>/title) finds it under way
+    let settleAnswerSaved: () => void = () => {};
+    const answerSavedPromise = new Promise<void>((resolve) => {
+      settleAnswerSaved = resolve;
+    });
+
+    const saveAnswer = async (text: string, status: MessageStatus) => {
+      // Only save assistant response if we have a conversation
+      if (!conversation || answerSaved) return;
+      answerSaved = true;
+      // Nothing was written before the answer stopped
+      if (status !== 'complete' && !text.trim()) {
+        settleAnswerSaved();
+        return;
+      }
+
+      try {
+        // Check the answer against the mandatory 7-section structure
+        // Incomplete answers aren't scored or repaired, they stop mid-structure by design
+        const validation = validateResponseStructure(text);
+
+        // Check the cited standards against the registry; a failed check doesn't block saving
+        const referenceRecords = await getReferenceRecords(text).catch((error) => {
+          console.error('Failed to check normative references:', error);
+          return [];
+        });
+
+        const parentId = await answerParentId;
+
+        const [assistantMessage] = await Promise.all([
+          prisma.message.create({
+            data: {
+              id: assistantMessageId,
+              conversationId: conversation.id,
+              parentId,
+              role: 'assistant',
+              content: text,
+              status,
+              model: getModelId(),
+              ...(status === 'complete'
+                ? {
+                    structureScore: validation.score,
+                    structureIssues: {
+                      missing: validation.missing,
+                      outOfOrder: validation.outOfOrder,
+                      duplicated: validation.duplicated,
+                    },
+                  }
+                : {}),
+              // Store the parsed sections so they can be queried individually
+              sections: {
+                create: getSectionRecords(text),
+              },
+              standardReferences: {
+                create: referenceRecords,
+              },
+              // Source ids the answer may cite, so history resolves its citation markers
+              citations: citations.length > 0 ? citations : undefined,
+            },
+          }),
+          prisma.conversation.update({
+            where: { id: conversation.id },
+            data: {
+              updatedAt: new Date(),
+              activeMessageId: assistantMessageId,
+              // Record the prompt version that answered this conversation
+              promptVersionId: systemPrompt.versionId,
+            },
+          }),
+        ]);
+
+        // Repair pass runs in the background so the stream can close right away
+        if (status === 'complete') {
+          repairMessageIfNeeded(assistantMessage.id, model, text, validation, {
+            ...usageContext,
+            modelId: getModelId(),
+          });
+          // Title after the first exchange, then every few messages, with a cheap model; it
+          // is written in the background and fetched by the client once the answer ends
+          refreshConversationTitle(conversation.id, user.id);
+        }
+      } catch (error) {
+        // Silently handle save errors
+      } finally {
+        settleAnswerSaved();
+      }
+    };
+
     let result;
     try {
       result = streamText({
-        model: openai(modelName),
+        model,
         messages: allMessages,
-      onFinish: async ({ text }) => {
-        // Only save assistant response if we have a conversation
-        if (conversation) {
-          try {
-            await Promise.all([
-              prisma.message.create({
-                data: {
-                  conversationId: conversation.id,
-                  role: 'assistant',
-                  content: text,
-                },
-              }),
-              prisma.conversation.update({
-                where: { id: conversation.id },
-                data: { updatedAt: new Date() },
-              }),
-            ]);
-          } catch (error) {
-            // Silently handle save errors
+        // Server-side tools; the model may call several before answering
+        tools: getChatTools({
+          userId: user.id,
+          userRole: user.role,
+          conversationId: conversation?.id ?? null,
+        }),
+        stopWhen: getChatStopCondition(),
+        abortSignal,
+        onChunk: ({ chunk }) => {
+          if (chunk.type === 'text-delta') {
+            currentStepText += chunk.text;
           }
-        }
-      },
-    });
+        },
+        onStepFinish: (step) => {
+          // With tool calls the answer spans several steps; keep the text of each
+          stepTexts.push(step.text);
+          currentStepText = '';
+        },
+        onFinish: async ({ totalUsage }) => {
+          // Every answer is accounted, saved or not
+          await recordUsage({
+            ...usageContext,
+            kind: 'chat',
+            modelId: getModelId(),
+            usage: totalUsage,
+            startedAt,
+            imageRequest: attachmentKinds.has('image'),
+            reservationId: quotaReservationId,
+          });
+
+          await saveAnswer(joinStepTexts(stepTexts), 'complete');
+        },
+        onAbort: async ({ steps }) => {
+          // Tokens of the step in progress aren't reported, only those of the finished steps
+          await recordUsage({
+            ...usageContext,
+            kind: 'chat',
+            modelId: getModelId(),
+            usage: sumUsage(steps.map((step) => step.usage)),
+            startedAt,
+            imageRequest: attachmentKinds.has('image'),
+            reservationId: quotaReservationId,
+          });
+
+          await saveAnswer(joinStepTexts([...stepTexts, currentStepText]), 'aborted');
+        },
+        onError: async ({ error }) => {
+          console.error('Chat stream failed:', error);
+          await releaseQuotaReservation(quotaReservationId);
+          await saveAnswer(joinStepTexts([...stepTexts, currentStepText]), 'error');
+        },
+      });
     } catch (streamError: any) {
       throw streamError;
     }
 
+    // Drain the stream even when nobody reads the response, so the answer is still completed
+    // and saved after the client disconnects
+    result.consumeStream();
+
     let response;
     try {
       // Return stream with conversation ID in headers (if we have one)
-      response = result.toUIMessageStreamResponse({
-        sendReasoning: false,
+      // The citation mapping goes first as a data part, so markers link as soon as they stream in
+      const stream = createUIMessageStream({
+        execute: async ({ writer }) => {
+          // A new conversation is announced first, so the client adopts it before the answer
+          // ends; transient parts reach onData without being added to the message
+          if (conversation && conversationCreated) {
+            writer.write({
+              type: 'data-conversation',
+              data: { id: conversation.id, title: conversation.title },
+              transient: true,
+            });
+          }
+          if (citations.length > 0) {
+            writer.write({ type: 'data-citations', data: citations });
+          }
+          writer.merge(
+            result.toUIMessageStream({
+              sendReasoning: false,
+              originalMessages: messages,
+              generateMessageId: () => assistantMessageId,
+            })
+          );
+          // The stream closes once the answer is saved, without waiting for the title model:
+          // the client fetches the new title itself
+          if (conversation) {
+            await answerSavedPromise;
+          }
+        },
+      });
+      const bufferedConversationId = conversation?.id;
+      response = createUIMessageStreamResponse({
+        stream,
+        consumeSseStream: bufferedConversationId
+          ? ({ stream: sseStream }) => {
+              unbufferedGeneration = null;
+              bufferGeneration(bufferedConversationId, assistantMessageId, sseStream);
+            }
+          : undefined,
       });
     } catch (responseError: any) {
       throw responseError;
@@ -320,9 +590,16 @@ export async function POST(req: Request) {
     if (conversation) {
       response.headers.set('X-Conversation-Id', conversation.id);
     }
+    for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+      response.headers.set(name, value);
+    }
     
     return response;
   } catch (error: any) {
+    if (unbufferedGeneration) {
+      discardGeneration(unbufferedGeneration.conversationId, unbufferedGeneration.messageId);
+    }
+    await releaseQuotaReservation(quotaReservationId);
     if (error.message === 'Unauthorized') {
       return new Response(
         JSON.stringify({ error: 'Unauthorized' }),
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
+import { toStructuredResponse } from '@/lib/response-structure'
+import { resolveMessageTree } from '@/lib/message-tree'
+import { getAttachmentUrl } from '@/lib/attachments'
 
 export const runtime = 'nodejs'
 
 /**
  * GET /api/conversations/[conversationId]/messages - Get messages for a conversation
- * Returns messages in assistant-ui format
+ * Returns messages in assistant-ui format; assistant answers also carry their parsed
+ * sections as `sections: {summary, analysis, references, logic, solutions, caveats, short}`
+ * and the knowledge base sources their citation markers refer to as `citations`.
+ * Messages form a tree through `parentId` (edits and regenerations are siblings); `headId`
+ * is the last message of the active branch. `status` tells a complete answer from one
+ * stopped by the user ("aborted") or cut by an error ("error"). Files sent with a message are
+ * `file` parts whose URL points to /api/attachments/[id].
  */
 export async function GET(
   request: NextRequest,
@@ -27,9 +36,16 @@ export async function GET(
           orderBy: { createdAt: 'asc' },
           select: {
             id: true,
+            parentId: true,
             role: true,
             content: true,
+            status: true,
+            model: true,
+            citations: true,
             createdAt: true,
+            sections: {
+              select: { key: true, content: true },
+            },
           },
         },
       },
@@ -42,12 +58,18 @@ export async function GET(
       )
     }
 
+    const tree = resolveMessageTree(conversation.messages, conversation.activeMessageId)
+
     // Convert to assistant-ui message format (optimized - avoid try/catch in loop)
-    const messages = conversation.messages.map((msg) => {
+    const messages = tree.messages.map((msg) => {
+      // Messages saved before sections were stored have none
+      const sections = msg.sections.length > 0 ? toStructuredResponse(msg.sections) : null;
+
       // Handle empty or null content
       if (!msg.content || msg.content.length === 0) {
         return {
           id: msg.id,
+          parentId: msg.parentId,
           role: msg.role,
           content: [
             {
@@ -55,6 +77,10 @@ export async function GET(
               text: '',
             },
           ],
+          status: msg.status,
+          model: msg.model,
+          sections,
+          citations: msg.citations,
           createdAt: msg.createdAt,
         };
       }
@@ -89,6 +115,14 @@ export async function GET(
                     url: part.image_url.url,
                   },
                 };
+              } else if (part.type === 'attachment' && part.attachmentId) {
+                // Stored files are downloaded from the attachments API
+                return {
+                  type: 'file' as const,
+                  url: getAttachmentUrl(part.attachmentId),
+                  mediaType: part.mediaType,
+                  ...(part.filename ? { filename: part.filename } : {}),
+                };
               } else if (part.type === 'image' && (part.image || part.url)) {
                 // Convert to image_url format
                 return {
@@ -122,13 +156,18 @@ export async function GET(
 
       return {
         id: msg.id,
+        parentId: msg.parentId,
         role: msg.role,
         content,
+        status: msg.status,
+        model: msg.model,
+        sections,
+        citations: msg.citations,
         createdAt: msg.createdAt,
       };
     })
 
-    return NextResponse.json({ messages })
+    return NextResponse.json({ messages, headId: tree.headId })
   } catch (error: any) {
     if (error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
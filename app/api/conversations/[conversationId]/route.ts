@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
+import { findConversationMessage } from '@/lib/message-tree'
+import { deleteAttachmentFiles } from '@/lib/attachments'
 
 export const runtime = 'nodejs'
 
@@ -25,8 +27,10 @@ export async function GET(
           orderBy: { createdAt: 'asc' },
           select: {
             id: true,
+            parentId: true,
             role: true,
             content: true,
+            model: true,
             createdAt: true,
           },
         },
@@ -52,6 +56,86 @@ export async function GET(
   }
 }
 
+/**
+ * PATCH /api/conversations/[conversationId] - Update conversation settings
+ * Body: { modelProfile?: string | null, activeMessageId?: string }
+ * activeMessageId is the last message of the branch to show when the conversation is opened
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { conversationId } = await context.params
+    const body = await request.json()
+    const { modelProfile, activeMessageId } = body
+
+    // Validate input
+    if (modelProfile !== undefined && modelProfile !== null && typeof modelProfile !== 'string') {
+      return NextResponse.json(
+        { error: 'modelProfile must be a string or null' },
+        { status: 400 }
+      )
+    }
+    if (activeMessageId !== undefined && typeof activeMessageId !== 'string') {
+      return NextResponse.json(
+        { error: 'activeMessageId must be a string' },
+        { status: 400 }
+      )
+    }
+
+    // Verify ownership before update
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.id,
+      },
+    })
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (activeMessageId !== undefined && !(await findConversationMessage(conversationId, activeMessageId))) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        ...(modelProfile !== undefined ? { modelProfile: modelProfile?.trim() || null } : {}),
+        ...(activeMessageId !== undefined ? { activeMessageId } : {}),
+        // Switching branches alone doesn't move the conversation up the list
+        ...(modelProfile === undefined ? { updatedAt: conversation.updatedAt } : {}),
+      },
+      select: {
+        id: true,
+        title: true,
+        modelProfile: true,
+        activeMessageId: true,
+        updatedAt: true,
+      },
+    })
+
+    return NextResponse.json({ conversation: updatedConversation })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    )
+  }
+}
+
 /**
  * DELETE /api/conversations/[conversationId] - Delete a conversation
  */
@@ -78,10 +162,14 @@ export async function DELETE(
       )
     }
 
+    const attachments = await prisma.attachment.findMany({
+      where: { conversationId },
+      select: { storageKey: true, thumbnailKey: true },
+    })
     await prisma.conversation.delete({
       where: { id: conversationId },
     })
-
+    await deleteAttachmentFiles(attachments)
 
     return NextResponse.json({ success: true })
   } catch (error: any) {
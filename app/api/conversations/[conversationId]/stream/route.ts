@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai'
+import { requireAuth } from '@/lib/session'
+import { abortGeneration, findGeneration, replayGeneration } from '@/lib/stream-buffer'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/conversations/[conversationId]/stream - Resume the answer being generated
+ * Replays the conversation's running (or just finished) generation from its start and follows
+ * it to the end, in the /api/chat stream format; 204 when there is none
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { conversationId } = await context.params
+
+    // Generations are looked up by owner, so other users' conversations answer 204 too
+    const generation = findGeneration(conversationId, user.id)
+    if (!generation) {
+      return new Response(null, { status: 204 })
+    }
+
+    return new Response(replayGeneration(generation).pipeThrough(new TextEncoderStream()), {
+      headers: UI_MESSAGE_STREAM_HEADERS,
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to resume stream' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/conversations/[conversationId]/stream - Stop the answer being generated
+ * The partial answer is saved with status "aborted"
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { conversationId } = await context.params
+
+    if (!abortGeneration(conversationId, user.id)) {
+      return NextResponse.json(
+        { error: 'No answer is being generated' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to stop stream' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { generateConversationTitle, waitForConversationTitle } from '@/lib/conversation-titles'
+import { checkQuota, describeQuotaExceeded } from '@/lib/quotas'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/conversations/[conversationId]/title - Current title of a conversation
+ * The client calls it once an answer ends: when the answer made a new title due, the response
+ * waits until the title model has written it
+ * Returns { conversation: { id, title } }
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { conversationId } = await context.params
+
+    const exists = await prisma.conversation.count({
+      where: { id: conversationId, userId: user.id },
+    })
+
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    await waitForConversationTitle(conversationId)
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { id: true, title: true },
+    })
+
+    return NextResponse.json({ conversation })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation title' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/conversations/[conversationId]/title - Have the title model rename the conversation
+ * from its active branch; the call counts towards the user's token usage
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { conversationId } = await context.params
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userId: user.id,
+      },
+      select: { id: true },
+    })
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const exceededQuota = await checkQuota(user, { imageRequest: false })
+    if (exceededQuota) {
+      return NextResponse.json(
+        {
+          error: 'Quota exceeded',
+          code: 'quota_exceeded',
+          message: describeQuotaExceeded(exceededQuota),
+          resetAt: exceededQuota.resetAt,
+        },
+        { status: 429 }
+      )
+    }
+
+    const updatedConversation = await generateConversationTitle(conversationId, user.id)
+    if (!updatedConversation) {
+      return NextResponse.json(
+        { error: 'The conversation has no text to title yet' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ conversation: updatedConversation })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Failed to generate conversation title:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate conversation title' },
+      { status: 500 }
+    )
+  }
+}
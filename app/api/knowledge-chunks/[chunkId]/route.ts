@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/knowledge-chunks/[chunkId] - Get a knowledge base passage, to show the source of a citation
+ * The knowledge base is shared, so any signed-in user can read it
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ chunkId: string }> }
+) {
+  try {
+    await requireAuth()
+
+    const { chunkId } = await context.params
+
+    const chunk = await prisma.knowledgeChunk.findUnique({
+      where: { id: chunkId },
+      select: {
+        id: true,
+        position: true,
+        page: true,
+        content: true,
+        document: {
+          select: { id: true, title: true, category: true, fileName: true },
+        },
+      },
+    })
+
+    if (!chunk) {
+      return NextResponse.json(
+        { error: 'Source not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ chunk })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
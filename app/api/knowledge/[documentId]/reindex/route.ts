@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { reindexDocument } from '@/lib/knowledge-base'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/knowledge/[documentId]/reindex - Re-embed a document with the current embedding model (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+
+    const { documentId } = await context.params
+
+    const existingDocument = await prisma.knowledgeDocument.findUnique({
+      where: { id: documentId },
+    })
+
+    if (!existingDocument) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    await reindexDocument(documentId, { userId: user.id, conversationId: null })
+
+    const document = await prisma.knowledgeDocument.findUnique({
+      where: { id: documentId },
+    })
+
+    return NextResponse.json({ success: true, document })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
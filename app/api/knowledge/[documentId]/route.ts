@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/knowledge/[documentId] - Remove a document and its chunks (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { documentId } = await context.params
+
+    const existingDocument = await prisma.knowledgeDocument.findUnique({
+      where: { id: documentId },
+    })
+
+    if (!existingDocument) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.knowledgeDocument.delete({
+      where: { id: documentId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Document deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
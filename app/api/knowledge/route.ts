@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { getEmbeddingProvider } from '@/lib/embeddings'
+import { extractDocumentText, ingestDocument, isKnowledgeCategory, KNOWLEDGE_CATEGORIES } from '@/lib/knowledge-base'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/knowledge - List knowledge base documents (admin only)
+ * Documents whose embeddingModel differs from the current one are skipped by retrieval until reindexed
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const documents = await prisma.knowledgeDocument.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        uploadedBy: { select: { email: true } },
+        _count: { select: { chunks: true } },
+      },
+    })
+
+    return NextResponse.json({
+      documents,
+      embeddingModel: getEmbeddingProvider().model,
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/knowledge - Upload a document to the knowledge base (admin only)
+ * Multipart form: file, title?, category? ('standard' | 'procedure' | 'datasheet' | 'other')
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin()
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const title = formData.get('title')
+    const category = formData.get('category') || 'other'
+
+    // Validate input
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isKnowledgeCategory(category)) {
+      return NextResponse.json(
+        { error: `category must be one of: ${KNOWLEDGE_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: text, error } = await extractDocumentText(file)
+    if (error || !text) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const document = await ingestDocument({
+      title: typeof title === 'string' && title.trim() ? title.trim() : file.name,
+      category,
+      fileName: file.name,
+      mimeType: file.type || 'text/plain',
+      size: file.size,
+      text,
+      uploadedById: user.id,
+    }, { userId: user.id, conversationId: null })
+
+    return NextResponse.json({ success: true, document })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import {
+  API_KEY_ENV_ERROR,
+  invalidateModelRegistry,
+  isAllowedApiKeyEnv,
+  isProviderKind,
+} from '@/lib/llm-providers'
+
+export const runtime = 'nodejs'
+
+/**
+ * PATCH /api/llm-providers/[providerId] - Update a provider (admin only)
+ * Body: { kind?, baseUrl?, apiKeyEnv?, enabled? }
+ * apiKeyEnv is restricted as on creation
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ providerId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { providerId } = await context.params
+    const body = await request.json()
+    const { kind, baseUrl, apiKeyEnv, enabled } = body
+
+    // Validate input
+    if (kind !== undefined && !isProviderKind(kind)) {
+      return NextResponse.json(
+        { error: 'kind must be one of: openai, azure, openai-compatible' },
+        { status: 400 }
+      )
+    }
+
+    if (apiKeyEnv && !isAllowedApiKeyEnv(apiKeyEnv)) {
+      return NextResponse.json(
+        { error: API_KEY_ENV_ERROR },
+        { status: 400 }
+      )
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'enabled must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    const existingProvider = await prisma.llmProvider.findUnique({
+      where: { id: providerId },
+    })
+
+    if (!existingProvider) {
+      return NextResponse.json(
+        { error: 'Provider not found' },
+        { status: 404 }
+      )
+    }
+
+    const provider = await prisma.llmProvider.update({
+      where: { id: providerId },
+      data: {
+        kind,
+        baseUrl: baseUrl === undefined ? undefined : baseUrl || null,
+        apiKeyEnv: apiKeyEnv === undefined ? undefined : apiKeyEnv || null,
+        enabled,
+      },
+    })
+
+    invalidateModelRegistry()
+
+    return NextResponse.json({ success: true, provider })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/llm-providers/[providerId] - Remove a provider (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ providerId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { providerId } = await context.params
+
+    const existingProvider = await prisma.llmProvider.findUnique({
+      where: { id: providerId },
+    })
+
+    if (!existingProvider) {
+      return NextResponse.json(
+        { error: 'Provider not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.llmProvider.delete({
+      where: { id: providerId },
+    })
+
+    invalidateModelRegistry()
+
+    return NextResponse.json({
+      success: true,
+      message: 'Provider deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
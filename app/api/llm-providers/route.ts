@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import {
+  API_KEY_ENV_ERROR,
+  invalidateModelRegistry,
+  isAllowedApiKeyEnv,
+  isProviderKind,
+} from '@/lib/llm-providers'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/llm-providers - List providers configured in the database (admin only)
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const providers = await prisma.llmProvider.findMany({
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ providers })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/llm-providers - Register a provider (admin only)
+ * Body: { id: string, kind: 'openai' | 'azure' | 'openai-compatible', baseUrl?: string, apiKeyEnv?: string }
+ * apiKeyEnv names the env variable holding the key: LLM_<NAME>_API_KEY, OPENAI_API_KEY or AZURE_API_KEY
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const body = await request.json()
+    const { id, kind, baseUrl, apiKeyEnv } = body
+
+    // Validate input
+    if (!id || !/^[a-z0-9-]+$/.test(id)) {
+      return NextResponse.json(
+        { error: 'id is required and may only contain lowercase letters, digits and dashes' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProviderKind(kind)) {
+      return NextResponse.json(
+        { error: 'kind must be one of: openai, azure, openai-compatible' },
+        { status: 400 }
+      )
+    }
+
+    if (apiKeyEnv && !isAllowedApiKeyEnv(apiKeyEnv)) {
+      return NextResponse.json(
+        { error: API_KEY_ENV_ERROR },
+        { status: 400 }
+      )
+    }
+
+    const existingProvider = await prisma.llmProvider.findUnique({
+      where: { id },
+    })
+
+    if (existingProvider) {
+      return NextResponse.json(
+        { error: 'A provider with this id already exists' },
+        { status: 409 }
+      )
+    }
+
+    const provider = await prisma.llmProvider.create({
+      data: {
+        id,
+        kind,
+        baseUrl: baseUrl || null,
+        apiKeyEnv: apiKeyEnv || null,
+      },
+    })
+
+    invalidateModelRegistry()
+
+    return NextResponse.json({ success: true, provider })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { isSectionKey, RESPONSE_SECTIONS } from '@/lib/response-structure'
+
+export const runtime = 'nodejs'
+
+const MAX_LIMIT = 200
+
+/**
+ * GET /api/message-sections?key=caveats&q=disjoncteur&limit=50 - Search stored answer sections
+ * Users search their own conversations; admins search every conversation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const params = request.nextUrl.searchParams
+
+    const key = params.get('key')
+    if (key !== null && !isSectionKey(key)) {
+      return NextResponse.json(
+        { error: `key must be one of: ${RESPONSE_SECTIONS.map((section) => section.key).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const query = params.get('q')?.trim()
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 50, 1), MAX_LIMIT)
+
+    const sections = await prisma.messageSection.findMany({
+      where: {
+        ...(key ? { key } : {}),
+        ...(query ? { content: { contains: query, mode: 'insensitive' as const } } : {}),
+        ...(user.role === 'admin' ? {} : { message: { conversation: { userId: user.id } } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        key: true,
+        heading: true,
+        content: true,
+        createdAt: true,
+        message: {
+          select: {
+            id: true,
+            conversationId: true,
+            model: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      sections: sections.map((section) => ({
+        key: section.key,
+        heading: section.heading,
+        content: section.content,
+        messageId: section.message.id,
+        conversationId: section.message.conversationId,
+        model: section.message.model,
+        createdAt: section.createdAt,
+      })),
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch sections' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/model-choices - List the models a user may pick explicitly
+ * These are the userChoice values of enabled routing rules that apply to the user's role
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth()
+
+    const rules = await prisma.routingRule.findMany({
+      where: {
+        enabled: true,
+        userChoice: { not: null },
+        OR: [{ userRole: null }, { userRole: user.role }],
+      },
+      select: { userChoice: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    const choices = Array.from(new Set(rules.map((rule) => rule.userChoice as string)))
+
+    return NextResponse.json({ choices })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch model choices' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/prompt-templates/[templateId] - Get a template with the content of every version (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { templateId } = await context.params
+
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          include: {
+            _count: {
+              select: { conversations: true },
+            },
+          },
+        },
+      },
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ template })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
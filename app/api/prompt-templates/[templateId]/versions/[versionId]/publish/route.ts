@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { publishPromptVersion } from '@/lib/prompts'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/prompt-templates/[templateId]/versions/[versionId]/publish - Publish a version (admin only)
+ * Publishing an archived version rolls the template back to it
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ templateId: string; versionId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { templateId, versionId } = await context.params
+
+    const version = await prisma.promptVersion.findFirst({
+      where: { id: versionId, templateId },
+    })
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (version.status === 'published') {
+      return NextResponse.json(
+        { error: 'This version is already published' },
+        { status: 400 }
+      )
+    }
+
+    await publishPromptVersion(versionId)
+
+    return NextResponse.json({
+      success: true,
+      message: `Version ${version.version} published successfully`,
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * PATCH /api/prompt-templates/[templateId]/versions/[versionId] - Edit a draft version (admin only)
+ * Body: { content: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ templateId: string; versionId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { templateId, versionId } = await context.params
+    const body = await request.json()
+    const { content } = body
+
+    // Validate input
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'content is required' },
+        { status: 400 }
+      )
+    }
+
+    const version = await prisma.promptVersion.findFirst({
+      where: { id: versionId, templateId },
+    })
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    // Published and archived versions are kept as-is so history stays auditable
+    if (version.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft versions can be edited' },
+        { status: 400 }
+      )
+    }
+
+    const updatedVersion = await prisma.promptVersion.update({
+      where: { id: versionId },
+      data: { content },
+    })
+
+    return NextResponse.json({ success: true, version: updatedVersion })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/prompt-templates/[templateId]/versions/[versionId] - Discard a draft version (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ templateId: string; versionId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { templateId, versionId } = await context.params
+
+    const version = await prisma.promptVersion.findFirst({
+      where: { id: versionId, templateId },
+    })
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (version.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft versions can be deleted' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.promptVersion.delete({
+      where: { id: versionId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Draft deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/prompt-templates/[templateId]/versions - Create a new draft version (admin only)
+ * Body: { content: string }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const admin = await requireAdmin()
+
+    const { templateId } = await context.params
+    const body = await request.json()
+    const { content } = body
+
+    // Validate input
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'content is required' },
+        { status: 400 }
+      )
+    }
+
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: templateId },
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    // Number the new version after the latest one
+    const latestVersion = await prisma.promptVersion.findFirst({
+      where: { templateId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+
+    const version = await prisma.promptVersion.create({
+      data: {
+        templateId,
+        version: (latestVersion?.version ?? 0) + 1,
+        content,
+        createdById: admin.id,
+      },
+    })
+
+    return NextResponse.json({ success: true, version })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/prompt-templates - List prompt templates with their versions (admin only)
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const templates = await prisma.promptTemplate.findMany({
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          select: {
+            id: true,
+            version: true,
+            status: true,
+            createdAt: true,
+            publishedAt: true,
+            _count: {
+              select: { conversations: true },
+            },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ templates })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/prompt-templates - Create a template with a first draft version (admin only)
+ * Body: { name: string, description?: string, content: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin()
+
+    const body = await request.json()
+    const { name, description, content } = body
+
+    // Validate input
+    if (!name || !/^[a-z0-9-]+$/.test(name)) {
+      return NextResponse.json(
+        { error: 'name is required and may only contain lowercase letters, digits and dashes' },
+        { status: 400 }
+      )
+    }
+
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'content is required' },
+        { status: 400 }
+      )
+    }
+
+    const existingTemplate = await prisma.promptTemplate.findUnique({
+      where: { name },
+    })
+
+    if (existingTemplate) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        name,
+        description: description || null,
+        versions: {
+          create: {
+            version: 1,
+            content,
+            createdById: admin.id,
+          },
+        },
+      },
+      include: { versions: true },
+    })
+
+    return NextResponse.json({ success: true, template })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { getQuotaStatus } from '@/lib/quotas'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/quota - Remaining chat allowance of the current user
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth()
+
+    const status = await getQuotaStatus(user)
+
+    return NextResponse.json(status)
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
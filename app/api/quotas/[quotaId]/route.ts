@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { parseQuotaInput, type QuotaLimitKey } from '@/lib/quotas'
+
+export const runtime = 'nodejs'
+
+/**
+ * PATCH /api/quotas/[quotaId] - Update the limits of a quota (admin only)
+ * Body: any subset of the limits accepted by POST /api/quotas; setting a lifted limit puts it back
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ quotaId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { quotaId } = await context.params
+    const body = await request.json()
+    const { data, error } = parseQuotaInput(body, true)
+
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existingQuota = await prisma.quota.findUnique({
+      where: { id: quotaId },
+    })
+
+    if (!existingQuota) {
+      return NextResponse.json(
+        { error: 'Quota not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingQuota.role && data.unlimited?.length) {
+      return NextResponse.json(
+        { error: 'Only user overrides can lift limits' },
+        { status: 400 }
+      )
+    }
+
+    // Setting a limit the override lifted puts it back
+    if (!data.unlimited && existingQuota.unlimited.some((key) => data[key as QuotaLimitKey] != null)) {
+      data.unlimited = existingQuota.unlimited.filter((key) => data[key as QuotaLimitKey] == null) as QuotaLimitKey[]
+    }
+
+    const quota = await prisma.quota.update({
+      where: { id: quotaId },
+      data,
+    })
+
+    return NextResponse.json({ success: true, quota })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/quotas/[quotaId] - Delete a role quota or a user override (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ quotaId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { quotaId } = await context.params
+
+    const existingQuota = await prisma.quota.findUnique({
+      where: { id: quotaId },
+    })
+
+    if (!existingQuota) {
+      return NextResponse.json(
+        { error: 'Quota not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.quota.delete({
+      where: { id: quotaId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Quota deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
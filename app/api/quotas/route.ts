@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { parseQuotaInput } from '@/lib/quotas'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/quotas - List role quotas and user overrides (admin only)
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const quotas = await prisma.quota.findMany({
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            role: true,
+          },
+        },
+      },
+      orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json({ quotas })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/quotas - Create a role quota or a user override (admin only)
+ * Body: { role } or { userId }, with any of dailyMessages, monthlyMessages, dailyTokens,
+ *       monthlyTokens, dailyImageRequests, monthlyImageRequests (null for no limit, or for the
+ *       role's limit in a user override), and for user overrides unlimited: limit keys to lift
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const body = await request.json()
+    const { data, error } = parseQuotaInput(body, false)
+
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    if (data.userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: data.userId },
+      })
+      if (!user) {
+        return NextResponse.json(
+          { error: 'User not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const existingQuota = await prisma.quota.findFirst({
+      where: data.userId ? { userId: data.userId } : { role: data.role },
+    })
+
+    if (existingQuota) {
+      return NextResponse.json(
+        { error: data.userId ? 'This user already has an override' : 'This role already has a quota' },
+        { status: 409 }
+      )
+    }
+
+    const quota = await prisma.quota.create({
+      data,
+    })
+
+    return NextResponse.json({ success: true, quota })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { RESPONSE_SECTIONS, type SectionKey } from '@/lib/response-structure'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/reports/compliance?days=30 - Answer structure compliance report (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const days = Math.min(Math.max(Number(request.nextUrl.searchParams.get('days')) || 30, 1), 365)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const where = {
+      role: 'assistant',
+      structureScore: { not: null },
+      createdAt: { gte: since },
+    }
+
+    const [totals, compliantCount, repairedCount, byModel, issues] = await Promise.all([
+      prisma.message.aggregate({
+        where,
+        _avg: { structureScore: true },
+        _count: { _all: true },
+      }),
+      prisma.message.count({
+        where: { ...where, structureScore: 1 },
+      }),
+      prisma.message.count({
+        where: { ...where, repaired: true },
+      }),
+      prisma.message.groupBy({
+        by: ['model'],
+        where,
+        _avg: { structureScore: true },
+        _count: { _all: true },
+      }),
+      prisma.message.findMany({
+        where: { ...where, structureScore: { lt: 1 } },
+        select: { structureIssues: true },
+      }),
+    ])
+
+    // Count how often each section is missing or out of order
+    const sections = RESPONSE_SECTIONS.map((section) => ({
+      key: section.key,
+      title: section.title,
+      missing: 0,
+      outOfOrder: 0,
+    }))
+    for (const { structureIssues } of issues) {
+      const { missing = [], outOfOrder = [] } = (structureIssues ?? {}) as {
+        missing?: SectionKey[]
+        outOfOrder?: SectionKey[]
+      }
+      for (const section of sections) {
+        if (missing.includes(section.key)) section.missing++
+        if (outOfOrder.includes(section.key)) section.outOfOrder++
+      }
+    }
+
+    return NextResponse.json({
+      days,
+      totalMessages: totals._count._all,
+      averageScore: totals._avg.structureScore,
+      compliantMessages: compliantCount,
+      repairedMessages: repairedCount,
+      byModel: byModel.map((entry) => ({
+        model: entry.model,
+        messages: entry._count._all,
+        averageScore: entry._avg.structureScore,
+      })),
+      sections,
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
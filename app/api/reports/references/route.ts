@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import type { ReferenceStatus } from '@/lib/standard-references'
+
+export const runtime = 'nodejs'
+
+const TOP_REFERENCES = 20
+
+/**
+ * GET /api/reports/references?days=30 - Normative references cited in answers, checked
+ * against the standard registry (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const days = Math.min(Math.max(Number(request.nextUrl.searchParams.get('days')) || 30, 1), 365)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const references = await prisma.messageReference.findMany({
+      where: { createdAt: { gte: since } },
+      select: {
+        code: true,
+        key: true,
+        status: true,
+        messageId: true,
+        message: { select: { model: true } },
+        standard: { select: { replacedBy: true } },
+      },
+    })
+
+    const counts = { known: 0, unknown: 0, withdrawn: 0 }
+    const byModel = new Map<string | null, { model: string | null; references: number } & typeof counts>()
+    const flagged = new Map<string, { code: string; status: ReferenceStatus; replacedBy: string | null; count: number }>()
+    const flaggedMessages = new Set<string>()
+
+    for (const reference of references) {
+      const status = reference.status as ReferenceStatus
+      counts[status]++
+
+      const model = reference.message.model
+      const modelEntry = byModel.get(model) ?? { model, references: 0, known: 0, unknown: 0, withdrawn: 0 }
+      modelEntry.references++
+      modelEntry[status]++
+      byModel.set(model, modelEntry)
+
+      if (status !== 'known') {
+        flaggedMessages.add(reference.messageId)
+        const entry = flagged.get(reference.key) ?? {
+          code: reference.code,
+          status,
+          replacedBy: reference.standard?.replacedBy ?? null,
+          count: 0,
+        }
+        entry.count++
+        flagged.set(reference.key, entry)
+      }
+    }
+
+    return NextResponse.json({
+      days,
+      totalReferences: references.length,
+      answersWithReferences: new Set(references.map((reference) => reference.messageId)).size,
+      flaggedAnswers: flaggedMessages.size,
+      ...counts,
+      byModel: [...byModel.values()].sort((a, b) => b.references - a.references),
+      topFlagged: [...flagged.values()].sort((a, b) => b.count - a.count).slice(0, TOP_REFERENCES),
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
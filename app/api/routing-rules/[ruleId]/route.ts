@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { parseRoutingRuleInput } from '@/lib/model-routing'
+
+export const runtime = 'nodejs'
+
+/**
+ * PATCH /api/routing-rules/[ruleId] - Update a routing rule (admin only)
+ * Body: any subset of the fields accepted by POST /api/routing-rules, plus { enabled }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { ruleId } = await context.params
+    const body = await request.json()
+    const { data, error } = parseRoutingRuleInput(body, true)
+
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existingRule = await prisma.routingRule.findUnique({
+      where: { id: ruleId },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Routing rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const rule = await prisma.routingRule.update({
+      where: { id: ruleId },
+      data,
+    })
+
+    return NextResponse.json({ success: true, rule })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/routing-rules/[ruleId] - Delete a routing rule (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { ruleId } = await context.params
+
+    const existingRule = await prisma.routingRule.findUnique({
+      where: { id: ruleId },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Routing rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.routingRule.delete({
+      where: { id: ruleId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Routing rule deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { parseRoutingRuleInput } from '@/lib/model-routing'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/routing-rules - List model routing rules in evaluation order (admin only)
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const rules = await prisma.routingRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/routing-rules - Create a routing rule (admin only)
+ * Body: { name, model, fallbackModel?, priority?, attachmentType?, minMessageLength?,
+ *         maxMessageLength?, userRole?, conversationProfile?, userChoice? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const body = await request.json()
+    const { data, error } = parseRoutingRuleInput(body, false)
+
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const rule = await prisma.routingRule.create({
+      data: data as typeof data & { name: string; model: string },
+    })
+
+    return NextResponse.json({ success: true, rule })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
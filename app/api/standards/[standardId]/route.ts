@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/standards/[standardId] - Remove a standard from the registry (admin only)
+ * Answers that cited it keep their recorded status
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ standardId: string }> }
+) {
+  try {
+    await requireAdmin()
+
+    const { standardId } = await context.params
+
+    const existingStandard = await prisma.standard.findUnique({
+      where: { id: standardId },
+    })
+
+    if (!existingStandard) {
+      return NextResponse.json(
+        { error: 'Standard not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.standard.delete({
+      where: { id: standardId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Standard deleted successfully',
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { checkStandardReferences } from '@/lib/standards'
+
+export const runtime = 'nodejs'
+
+const MAX_TEXT_LENGTH = 20000
+
+/**
+ * POST /api/standards/check - Check the standards cited in a text against the registry
+ * Body: { text: string }, usually the "Références normatives" section of an answer
+ * Returns `references` with a status each ('known' | 'unknown' | 'withdrawn') and the registry size;
+ * with an empty registry nothing can be checked, so no references are returned
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth()
+
+    const body = await request.json()
+    const { text } = body
+
+    // Validate input
+    if (typeof text !== 'string' || text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `text must be a string of at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const registrySize = await prisma.standard.count()
+    const references = registrySize > 0 ? await checkStandardReferences(text) : []
+
+    return NextResponse.json({
+      references: references.map(({ standardId, ...reference }) => reference),
+      registrySize,
+    })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
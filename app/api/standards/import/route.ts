@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { importStandards, parseStandardsCsv } from '@/lib/standards'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/standards/import - Import standards from a CSV file (admin only)
+ * Multipart form: file. Columns: code, title, edition?, status? ('current' | 'withdrawn'), replacedBy?
+ * Existing standards with the same code are updated; rejected lines are returned in `errors`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    // Validate input
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, errors } = parseStandardsCsv(await file.text())
+    if (data.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rows found', errors },
+        { status: 400 }
+      )
+    }
+
+    const { created, updated } = await importStandards(data)
+
+    return NextResponse.json({ success: true, created, updated, errors })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+const MAX_RESULTS = 500
+
+/**
+ * GET /api/standards?q=&status= - Search the standard registry (admin only)
+ * Query: q matches code or title, status is 'current' or 'withdrawn'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const q = request.nextUrl.searchParams.get('q')?.trim()
+    const status = request.nextUrl.searchParams.get('status')
+
+    const where = {
+      ...(status === 'current' || status === 'withdrawn' ? { status } : {}),
+      ...(q
+        ? {
+            OR: [
+              { code: { contains: q, mode: 'insensitive' as const } },
+              { title: { contains: q, mode: 'insensitive' as const } },
+            ],
+          }
+        : {}),
+    }
+
+    const [standards, total] = await Promise.all([
+      prisma.standard.findMany({
+        where,
+        orderBy: { code: 'asc' },
+        take: MAX_RESULTS,
+        include: {
+          _count: { select: { references: true } },
+        },
+      }),
+      prisma.standard.count({ where }),
+    ])
+
+    return NextResponse.json({ standards, total })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { getUsageSummary } from '@/lib/usage'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/usage?days=30 - Token usage and cost of the current user.
+ * Admins can pass userId to see another user's usage.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await requireAuth()
+
+    const searchParams = request.nextUrl.searchParams
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 30, 1), 365)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const userId = searchParams.get('userId') || currentUser.id
+    if (userId !== currentUser.id && currentUser.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const summary = await getUsageSummary({ userId, since })
+
+    return NextResponse.json({ days, user, ...summary })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json(
+      { error: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAdmin } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
 import { deleteUserSessions } from '@/lib/session'
+import { deleteAttachmentFiles } from '@/lib/attachments'
 
 export const runtime = 'nodejs'
 
@@ -102,10 +103,15 @@ export async function DELETE(
       )
     }
 
-    // Delete user (cascades to sessions)
+    // Delete user (cascades to sessions, conversations and attachment records)
+    const attachments = await prisma.attachment.findMany({
+      where: { userId },
+      select: { storageKey: true, thumbnailKey: true },
+    })
     await prisma.user.delete({
       where: { id: userId },
     })
+    await deleteAttachmentFiles(attachments)
 
     return NextResponse.json({
       success: true,
@@ -6,8 +6,16 @@ import {
   AssistantChatTransport,
   useAISDKRuntime,
 } from "@assistant-ui/react-ai-sdk";
-import { AssistantRuntimeProvider, useAssistantState } from "@assistant-ui/react";
+import {
+  AssistantRuntimeProvider,
+  unstable_createMessageConverter,
+  useAssistantState,
+  type DataMessagePart,
+  type ExportedMessageRepository,
+  type TextMessagePart,
+} from "@assistant-ui/react";
 import { useChat } from "@ai-sdk/react";
+import type { UIMessage } from "ai";
 import {
   SidebarInset,
   SidebarProvider,
@@ -24,6 +32,7 @@ import {
   SidebarRail,
 } from "@/components/ui/sidebar";
 import { ConversationList } from "@/components/conversation-list";
+import { attachmentAdapter } from "@/components/assistant-ui/attachment-adapter";
 import { Separator } from "@/components/ui/separator";
 import {
   Breadcrumb,
@@ -35,6 +44,8 @@ import {
 } from "@/components/ui/breadcrumb";
 import { LogoutButton } from "@/components/logout-button";
 import { AdminLink } from "@/components/admin-link";
+import { UsageLink } from "@/components/usage-link";
+import { ModelPicker } from "@/components/model-picker";
 import { MessagesSquare, Github } from "lucide-react";
 import Link from "next/link";
 
@@ -77,6 +88,65 @@ class ErrorBoundary extends Component<
   }
 }
 
+// Converts history messages for import into the runtime, the way the AI SDK runtime
+// converts live ones. History only holds text, files and data parts.
+const historyMessageConverter = unstable_createMessageConverter((message: UIMessage) => ({
+  id: message.id,
+  role: message.role,
+  content: message.parts.flatMap((part): (TextMessagePart | DataMessagePart)[] => {
+    if (part.type === "text") return [{ type: "text", text: part.text }];
+    if (part.type.startsWith("data-")) {
+      return [{ type: "data", name: part.type.slice(5), data: (part as { data: unknown }).data }];
+    }
+    return [];
+  }),
+  attachments:
+    message.role === "user"
+      ? message.parts.flatMap((part, index) =>
+          part.type === "file"
+            ? [
+                {
+                  id: index.toString(),
+                  type: part.mediaType.startsWith("image/") ? ("image" as const) : ("file" as const),
+                  name: part.filename ?? "file",
+                  contentType: part.mediaType,
+                  status: { type: "complete" as const },
+                  content: [
+                    part.mediaType.startsWith("image/")
+                      ? { type: "image" as const, image: part.url, filename: part.filename }
+                      : { type: "file" as const, data: part.url, mimeType: part.mediaType, filename: part.filename },
+                  ],
+                },
+              ]
+            : []
+        )
+      : undefined,
+}));
+
+/**
+ * Message tree for the runtime, from the formatted history and the parents the messages API
+ * returned. A message left out while formatting hands its children over to its own parent.
+ */
+function toMessageRepository(
+  parents: Map<string, string | null>,
+  messages: UIMessage[],
+  headId: string | null
+): ExportedMessageRepository {
+  const kept = new Set(messages.map((message) => message.id));
+  const resolveParent = (id: string | null) => {
+    while (id !== null && !kept.has(id)) id = parents.get(id) ?? null;
+    return id;
+  };
+
+  return {
+    headId: resolveParent(headId),
+    messages: messages.map((message) => ({
+      parentId: resolveParent(parents.get(message.id) ?? null),
+      message: historyMessageConverter.toThreadMessages([message])[0],
+    })),
+  };
+}
+
 // Debug component to check thread.messages using useAssistantState (only in development)
 function ThreadMessagesDebug() {
   if (process.env.NODE_ENV !== 'development') {
@@ -102,13 +172,26 @@ function AssistantContent() {
     return null
   });
   const [conversationListKey, setConversationListKey] = useState(0);
+  // Latest title streamed by /api/chat, patched into the sidebar without refetching it
+  const [renamedConversation, setRenamedConversation] = useState<{ id: string; title: string } | null>(null);
   const [initialMessages, setInitialMessages] = useState<any[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [messagesLoadedIntoRuntime, setMessagesLoadedIntoRuntime] = useState(false);
+  // Every branch of the loaded conversation, imported alongside initialMessages
+  const initialRepositoryRef = useRef<ExportedMessageRepository | null>(null);
+  // Last message of the branch on screen, as the server knows it
+  const activeHeadIdRef = useRef<string | null>(null);
+  
+  // Model explicitly picked by the user (null lets the routing policy decide)
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
   
   // Use ref to store current conversationId for transport body
   const conversationIdRef = useRef(currentConversationId);
   conversationIdRef.current = currentConversationId;
+  const selectedModelRef = useRef(selectedModel);
+  selectedModelRef.current = selectedModel;
+  // Conversation created by the answer streaming in: its messages are already in the runtime
+  const adoptedConversationIdRef = useRef<string | null>(null);
 
   // Suppress browser extension errors (they don't affect app functionality)
   useEffect(() => {
@@ -173,6 +256,12 @@ function AssistantContent() {
 
   // STEP 1: Load conversation history from database when conversation changes
   useEffect(() => {
+    if (currentConversationId !== null && currentConversationId === adoptedConversationIdRef.current) {
+      // Reopening it later loads it like any other
+      adoptedConversationIdRef.current = null;
+      return;
+    }
+
     // Reset state when conversation changes
     setInitialMessages([]);
     setMessagesLoadedIntoRuntime(false);
@@ -204,6 +293,15 @@ function AssistantContent() {
             
             // Extract content efficiently
             let content: string = '';
+
+            // Knowledge base sources cited by an assistant answer, read by the citation links
+            const citationParts = Array.isArray(msg.citations) && msg.citations.length > 0
+              ? [{ type: 'data-citations' as const, data: msg.citations }]
+              : [];
+            // Answers stopped by the user or cut by an error, read by the status notice
+            const statusParts = msg.status === 'aborted' || msg.status === 'error'
+              ? [{ type: 'data-status' as const, data: msg.status }]
+              : [];
             
             // Handle content - might be string, array, or need parsing
             let contentArray: any[] | null = null;
@@ -296,7 +394,7 @@ function AssistantContent() {
               formattedMessages.push({
                 id: msg.id || `msg-${Date.now()}-${Math.random()}`,
                 role: msg.role as 'user' | 'assistant',
-                parts: parts,
+                parts: [...parts, ...citationParts, ...statusParts],
               });
             } else if (typeof msg.content === 'string') {
               content = msg.content.trim();
@@ -311,6 +409,8 @@ function AssistantContent() {
                     type: 'text' as const,
                     text: content,
                   },
+                  ...citationParts,
+                  ...statusParts,
                 ],
               });
             } else {
@@ -319,6 +419,11 @@ function AssistantContent() {
           }
           
           // Set messages - this will trigger Step 2
+          initialRepositoryRef.current = toMessageRepository(
+            new Map((data.messages || []).map((msg: any) => [msg.id, msg.parentId ?? null])),
+            formattedMessages,
+            data.headId ?? null
+          );
           setInitialMessages(formattedMessages);
         } else if (response.status === 404) {
           // Conversation not found - clear it from localStorage and state
@@ -467,9 +572,14 @@ function AssistantContent() {
       body: () => {
         const bodyData = {
           conversationId: conversationIdRef.current,
+          model: selectedModelRef.current,
         };
         return bodyData;
       },
+      // Answers being generated are resumed from the conversation's stream buffer
+      prepareReconnectToStreamRequest: () => ({
+        api: `/api/conversations/${conversationIdRef.current}/stream`,
+      }),
     });
   }, []); // Empty dependency array - transport is created once
 
@@ -480,11 +590,61 @@ function AssistantContent() {
   // Type assertion to work around version mismatch between ai packages
   const chat = useChat({
     transport: transport as any,
+    // /api/chat announces the conversation it creates for a new chat as a `data-conversation`
+    // part; adopt it without reloading the messages already on screen
+    onData: (part: any) => {
+      if (part.type !== 'data-conversation' || !part.data?.id) return;
+      if (typeof part.data.title === 'string') {
+        setRenamedConversation({ id: part.data.id, title: part.data.title });
+      }
+      if (conversationIdRef.current) return;
+      adoptedConversationIdRef.current = part.data.id;
+      lastSetConversationIdRef.current = part.data.id;
+      conversationIdRef.current = part.data.id;
+      setCurrentConversationId(part.data.id);
+    },
+    // The title model may rename the conversation after an answer; the title request waits
+    // for it in the background, so the thread isn't kept running meanwhile
+    onFinish: ({ isAbort, isError }: { isAbort: boolean; isError: boolean }) => {
+      const conversationId = conversationIdRef.current;
+      if (!conversationId || isAbort || isError) return;
+      fetch(`/api/conversations/${conversationId}/title`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (data?.conversation?.title) {
+            setRenamedConversation({ id: data.conversation.id, title: data.conversation.title });
+          }
+        })
+        .catch(() => {
+          // The list refresh picks the title up later
+        });
+    },
   });
 
   // Wrap chat with useAISDKRuntime to create the assistant-ui runtime
   // Type assertion to work around version mismatch between ai packages
-  const runtime = useAISDKRuntime(chat as any);
+  // The stop button aborts the generation on the server too (it outlives the request so it can
+  // be resumed), and marks the partial answer the way the server saves it, so the status
+  // notice shows right away instead of after a reload. Attachments go through our adapter,
+  // which also accepts PDF, Word, Excel and CSV documents
+  const runtime = useAISDKRuntime({
+    ...chat,
+    stop: async () => {
+      if (conversationIdRef.current) {
+        fetch(`/api/conversations/${conversationIdRef.current}/stream`, { method: 'DELETE' }).catch(() => {
+          // The answer then completes and is saved in full
+        });
+      }
+      await chat.stop();
+      chat.setMessages((messages) => {
+        const last = messages.at(-1);
+        if (last?.role !== 'assistant' || last.parts.some((part) => part.type === 'data-status')) {
+          return messages;
+        }
+        return [...messages.slice(0, -1), { ...last, parts: [...last.parts, { type: 'data-status', data: 'aborted' }] }];
+      });
+    },
+  } as any, { adapters: { attachments: attachmentAdapter } });
 
   // Store runtime in ref for fetch interceptor
   useEffect(() => {
@@ -530,8 +690,18 @@ function AssistantContent() {
     // This bypasses the symbolInnerMessage issue because we're calling setMessages directly
     // with AI SDK format messages
     if (currentConversationId) {
-      if (initialMessages.length > 0) {
-        chat.setMessages(initialMessages);
+      if (initialMessages.length > 0 && initialRepositoryRef.current) {
+        // Import the whole tree so the branch picker can switch to edits and regenerations
+        // made in earlier sessions; the runtime hands the active branch to chat.setMessages()
+        const { headId, messages } = initialRepositoryRef.current;
+        activeHeadIdRef.current = headId ?? null;
+        runtime.thread.import(initialRepositoryRef.current);
+
+        // The last question has no answer yet: reattach to its generation if it's still
+        // running (after a reload or a lost connection); the server answers 204 otherwise
+        if (messages.find(({ message }) => message.id === headId)?.message.role === 'user') {
+          chat.resumeStream();
+        }
         lastSetMessagesIdsRef.current = messagesIds;
         lastSetMessagesLengthRef.current = messagesLength;
       } else {
@@ -554,57 +724,46 @@ function AssistantContent() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentConversationId, initialMessages, isLoadingHistory]); // chat.setMessages is stable, so we don't need chat in deps
 
-  // Monitor for new conversation creation when in "new chat" mode
+  // Remember the branch picked in the branch picker, so the conversation reopens on it.
+  // Runs end on messages the server saves as active itself; the delay skips the
+  // intermediate states of an edit or a regeneration before it starts running.
   useEffect(() => {
-    if (currentConversationId !== null) {
-      return;
-    }
+    let wasRunning = false;
+    let pendingSave: NodeJS.Timeout | null = null;
 
-    let checkCount = 0;
-    const maxChecks = 15;
-    let intervalId: NodeJS.Timeout | null = null;
+    const unsubscribe = runtime.thread.subscribe(() => {
+      const { isRunning, messages } = runtime.thread.getState();
+      const headId = messages.at(-1)?.id ?? null;
 
-    const checkForNewConversation = async () => {
-      checkCount++;
-
-      if (checkCount > maxChecks) {
-        if (intervalId) {
-          clearInterval(intervalId);
-        }
-        return;
+      if (pendingSave) {
+        clearTimeout(pendingSave);
+        pendingSave = null;
       }
-
-      try {
-        const response = await fetch('/api/conversations');
-        if (response.ok) {
-          const data = await response.json();
-          if (data.conversations && data.conversations.length > 0) {
-            const latestConversation = data.conversations[0];
-            const conversationAge = Date.now() - new Date(latestConversation.createdAt).getTime();
-            if (conversationAge < 20000) {
-              setCurrentConversationId(latestConversation.id);
-              setConversationListKey(prev => prev + 1);
-              if (intervalId) {
-                clearInterval(intervalId);
-              }
-              return;
-            }
-          }
-        }
-      } catch (error) {
-        // Silent error handling
+      if (isRunning || wasRunning) {
+        wasRunning = isRunning;
+        activeHeadIdRef.current = headId;
+        return;
       }
-    };
-
-    checkForNewConversation();
-    intervalId = setInterval(checkForNewConversation, 2000);
+      if (!headId || headId === activeHeadIdRef.current || !conversationIdRef.current) return;
+
+      const conversationId = conversationIdRef.current;
+      pendingSave = setTimeout(() => {
+        activeHeadIdRef.current = headId;
+        fetch(`/api/conversations/${conversationId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ activeMessageId: headId }),
+        }).catch(() => {
+          // The branch is only remembered for the next visit
+        });
+      }, 500);
+    });
 
     return () => {
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
+      unsubscribe();
+      if (pendingSave) clearTimeout(pendingSave);
     };
-  }, [currentConversationId]);
+  }, [runtime]);
 
   return (
     <AssistantRuntimeProvider runtime={runtime}>
@@ -639,6 +798,7 @@ function AssistantContent() {
                 onSelectConversation={handleSelectConversation}
                 onNewChat={handleNewChat}
                 refreshTrigger={conversationListKey}
+                renamedConversation={renamedConversation}
               />
             </SidebarContent>
             <SidebarRail />
@@ -689,6 +849,8 @@ function AssistantContent() {
                 </BreadcrumbList>
               </Breadcrumb>
               <div className="ml-auto flex items-center gap-2">
+                <ModelPicker value={selectedModel} onChange={setSelectedModel} />
+                <UsageLink />
                 <AdminLink />
                 <LogoutButton />
               </div>
@@ -0,0 +1,218 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+
+interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+  unpricedCalls: number
+}
+
+interface UsageReport {
+  days: number
+  user: {
+    id: string
+    email: string
+    name: string | null
+  }
+  totals: UsageTotals
+  byModel: ({ model: string } & UsageTotals)[]
+  byDay: ({ day: string } & UsageTotals)[]
+}
+
+const periods = [7, 30, 90]
+
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString()
+}
+
+function formatCost(totals: UsageTotals) {
+  if (totals.calls > 0 && totals.unpricedCalls === totals.calls) return '—'
+  return `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}`
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</div>
+      <div className="mt-1 text-2xl font-bold">{value}</div>
+    </div>
+  )
+}
+
+function UsageTable<T extends UsageTotals>({
+  label,
+  rows,
+  getKey,
+}: {
+  label: string
+  rows: T[]
+  getKey: (row: T) => string
+}) {
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {label}
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Calls
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Prompt
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Completion
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Cost
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map((row) => (
+            <tr key={getKey(row)}>
+              <td className="px-6 py-3 text-sm font-mono">{getKey(row)}</td>
+              <td className="px-6 py-3 text-right text-sm">{row.calls}</td>
+              <td className="px-6 py-3 text-right text-sm">{formatTokens(row.promptTokens)}</td>
+              <td className="px-6 py-3 text-right text-sm">{formatTokens(row.completionTokens)}</td>
+              <td className="px-6 py-3 text-right text-sm">{formatCost(row)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          No usage in this period
+        </div>
+      )}
+    </div>
+  )
+}
+
+function UsageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const userId = searchParams.get('userId')
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchUsage(days)
+  }, [days, userId])
+
+  async function fetchUsage(period: number) {
+    try {
+      const params = new URLSearchParams({ days: String(period) })
+      if (userId) params.set('userId', userId)
+
+      const response = await fetch(`/api/usage?${params}`)
+      if (response.ok) {
+        setReport(await response.json())
+      } else if (response.status === 403) {
+        alert('Access denied. Admin privileges required.')
+        router.push('/usage')
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to load usage')
+      }
+    } catch (error) {
+      alert('Failed to load usage')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading usage...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push(userId ? '/admin/users' : '/')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              {userId ? 'Back to Users' : 'Back to Home'}
+            </Button>
+            <h1 className="text-3xl font-bold">Usage</h1>
+          </div>
+          <div className="flex gap-1">
+            {periods.map((period) => (
+              <Button
+                key={period}
+                variant={days === period ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {report && (
+          <>
+            <p className="mb-4 text-sm text-gray-600">
+              Model calls of {report.user.name || report.user.email} over the last {report.days} days, including
+              background answer repairs. Costs are estimates from the model price table
+              {report.totals.unpricedCalls > 0 &&
+                `; ${report.totals.unpricedCalls} calls to models without a price are not counted in the cost`}
+              .
+            </p>
+
+            <div className="mb-6 grid gap-4 md:grid-cols-4">
+              <StatCard label="Calls" value={report.totals.calls} />
+              <StatCard label="Prompt tokens" value={formatTokens(report.totals.promptTokens)} />
+              <StatCard label="Completion tokens" value={formatTokens(report.totals.completionTokens)} />
+              <StatCard label="Estimated cost" value={formatCost(report.totals)} />
+            </div>
+
+            <div className="grid gap-6">
+              <UsageTable label="Model" rows={report.byModel} getKey={(row) => row.model} />
+              <UsageTable label="Day" rows={[...report.byDay].reverse()} getKey={(row) => row.day} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function UsagePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="text-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading usage...</p>
+          </div>
+        </div>
+      }
+    >
+      <UsageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { cn } from '@/lib/utils'
+
+const adminSections = [
+  { href: '/admin/users', label: 'Users' },
+  { href: '/admin/quotas', label: 'Quotas' },
+  { href: '/admin/routing', label: 'Model Routing' },
+  { href: '/admin/prompts', label: 'Prompts' },
+  { href: '/admin/knowledge', label: 'Knowledge Base' },
+  { href: '/admin/standards', label: 'Standards' },
+  { href: '/admin/reports', label: 'Reports' },
+]
+
+export function AdminNav() {
+  const pathname = usePathname()
+
+  return (
+    <nav className="mb-6 flex gap-1 border-b">
+      {adminSections.map((section) => (
+        <Link
+          key={section.href}
+          href={section.href}
+          className={cn(
+            'border-b-2 px-4 py-2 text-sm font-medium transition-colors',
+            pathname.startsWith(section.href)
+              ? 'border-blue-600 text-blue-600'
+              : 'border-transparent text-gray-500 hover:text-gray-900'
+          )}
+        >
+          {section.label}
+        </Link>
+      ))}
+    </nav>
+  )
+}
@@ -0,0 +1,120 @@
+import type { AttachmentAdapter, PendingAttachment } from "@assistant-ui/react";
+
+const DOCUMENT_ACCEPT = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/csv",
+  ".pdf",
+  ".docx",
+  ".xlsx",
+  ".csv",
+];
+
+const readFileAsDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+
+type UploadedAttachment = {
+  id: string;
+  url: string;
+  contentType: string;
+  filename: string | null;
+};
+
+const uploadAttachment = async (file: File): Promise<UploadedAttachment> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await fetch("/api/attachments", {
+    method: "POST",
+    body: formData,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.attachment) {
+    throw new Error(data?.error || `Failed to upload "${file.name}"`);
+  }
+  return data.attachment;
+};
+
+/**
+ * Composer attachments: images are sent inline as before (/api/chat normalizes them), while
+ * PDF, Word, Excel and CSV documents are uploaded as soon as they are added, so a file the
+ * server can't read is refused right away and the tile can show its page count and preview.
+ * The message then carries the attachment's URL, whose extracted text /api/chat gives the model.
+ */
+export const attachmentAdapter: AttachmentAdapter = {
+  accept: ["image/*", ...DOCUMENT_ACCEPT].join(", "),
+
+  async *add({ file }) {
+    if (file.type.startsWith("image/")) {
+      yield {
+        id: crypto.randomUUID(),
+        type: "image",
+        name: file.name,
+        contentType: file.type,
+        file,
+        status: { type: "requires-action", reason: "composer-send" },
+      };
+      return;
+    }
+
+    // A refused document is not added
+    let uploaded: UploadedAttachment;
+    try {
+      uploaded = await uploadAttachment(file);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : `Failed to upload "${file.name}"`);
+      return;
+    }
+
+    yield {
+      id: uploaded.id,
+      type: "document",
+      name: uploaded.filename ?? file.name,
+      contentType: uploaded.contentType,
+      file,
+      content: [
+        {
+          type: "file",
+          data: uploaded.url,
+          mimeType: uploaded.contentType,
+          filename: uploaded.filename ?? file.name,
+        },
+      ],
+      status: { type: "requires-action", reason: "composer-send" },
+    };
+  },
+
+  async send(attachment: PendingAttachment) {
+    if (attachment.content?.length) {
+      return { ...attachment, content: attachment.content, status: { type: "complete" } };
+    }
+    return {
+      ...attachment,
+      status: { type: "complete" },
+      content: [
+        {
+          type: "file",
+          mimeType: attachment.contentType,
+          filename: attachment.name,
+          data: await readFileAsDataURL(attachment.file),
+        },
+      ],
+    };
+  },
+
+  // Documents are stored on upload: one removed before sending is deleted. Attachments of
+  // sent messages (an edit being cancelled) are complete and left alone
+  async remove(attachment) {
+    if (attachment.status.type === "complete") return;
+    const url = attachment.content?.find((part) => part.type === "file")?.data;
+    if (!url?.startsWith("/api/attachments/")) return;
+    await fetch(url, { method: "DELETE" }).catch(() => {
+      // The upload stays stored, unlinked to any message
+    });
+  },
+};
@@ -109,14 +109,78 @@ const AttachmentPreviewDialog: FC<PropsWithChildren> = ({ children }) => {
   );
 };
 
-const AttachmentThumb: FC = () => {
+// Stored images (/api/attachments/<id>) have a small preview next to them
+const toThumbnailSrc = (src: string | undefined) =>
+  src && /^\/api\/attachments\/[\w-]+$/.test(src) ? `${src}/thumbnail` : src;
+
+type ExtractionSummary = {
+  kind: "pdf" | "docx" | "xlsx" | "csv";
+  pageCount: number | null;
+  sheets: string[] | null;
+  characters: number;
+  truncated: boolean;
+  preview: string;
+};
+
+// Summaries don't change once extracted; tiles of the composer and of the thread share them
+const extractionRequests = new Map<string, Promise<ExtractionSummary | null>>();
+
+const fetchExtraction = (src: string) => {
+  let request = extractionRequests.get(src);
+  if (!request) {
+    request = fetch(`${src}/extraction`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data?.extraction ?? null)
+      .catch(() => null);
+    extractionRequests.set(src, request);
+  }
+  return request;
+};
+
+// Page count and start of the text of a stored document, as the model reads it
+const useDocumentExtraction = () => {
+  const src = useAssistantState(({ attachment }) => {
+    if (attachment.type === "image") return undefined;
+    const data = attachment.content?.find((c) => c.type === "file")?.data;
+    return data && /^\/api\/attachments\/[\w-]+$/.test(data) ? data : undefined;
+  });
+  const [extraction, setExtraction] = useState<ExtractionSummary | null>(null);
+
+  useEffect(() => {
+    if (!src) {
+      setExtraction(null);
+      return;
+    }
+    let cancelled = false;
+    fetchExtraction(src).then((summary) => {
+      if (!cancelled) setExtraction(summary);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  return extraction;
+};
+
+const formatExtractionBadge = (extraction: ExtractionSummary) => {
+  if (extraction.sheets) {
+    return `${extraction.sheets.length} sheet${extraction.sheets.length > 1 ? "s" : ""}`;
+  }
+  if (extraction.pageCount) return `${extraction.pageCount} p.`;
+  return extraction.kind.toUpperCase();
+};
+
+const AttachmentThumb: FC<{ extraction: ExtractionSummary | null }> = ({
+  extraction,
+}) => {
   const isImage = useAssistantState(
     ({ attachment }) => attachment.type === "image",
   );
-  const src = useAttachmentSrc();
+  const src = toThumbnailSrc(useAttachmentSrc());
 
   return (
-    <Avatar className="aui-attachment-tile-avatar h-full w-full rounded-none">
+    <Avatar className="aui-attachment-tile-avatar relative h-full w-full rounded-none">
       <AvatarImage
         src={src}
         alt="Attachment preview"
@@ -125,6 +189,11 @@ const AttachmentThumb: FC = () => {
       <AvatarFallback delayMs={isImage ? 200 : 0}>
         <FileText className="aui-attachment-tile-fallback-icon size-8 text-muted-foreground" />
       </AvatarFallback>
+      {extraction && (
+        <span className="aui-attachment-tile-badge absolute inset-x-0 bottom-0 truncate bg-foreground/60 px-1 text-center text-[10px] leading-4 text-background">
+          {formatExtractionBadge(extraction)}
+        </span>
+      )}
     </Avatar>
   );
 };
@@ -150,6 +219,7 @@ const AttachmentUI: FC = () => {
         throw new Error(`Unknown attachment type: ${_exhaustiveCheck}`);
     }
   });
+  const extraction = useDocumentExtraction();
 
   return (
     <Tooltip>
@@ -172,14 +242,29 @@ const AttachmentUI: FC = () => {
               id="attachment-tile"
               aria-label={`${typeLabel} attachment`}
             >
-              <AttachmentThumb />
+              <AttachmentThumb extraction={extraction} />
             </div>
           </TooltipTrigger>
         </AttachmentPreviewDialog>
         {isComposer && <AttachmentRemove />}
       </AttachmentPrimitive.Root>
-      <TooltipContent side="top">
+      <TooltipContent side="top" className={cn(extraction && "max-w-xs")}>
         <AttachmentPrimitive.Name />
+        {extraction && (
+          <div className="aui-attachment-extraction mt-1 space-y-1 opacity-80">
+            <p>
+              {formatExtractionBadge(extraction)}
+              {extraction.sheets && ` (${extraction.sheets.join(", ")})`}
+              {` · ${extraction.characters.toLocaleString()} characters`}
+              {extraction.truncated && " · truncated"}
+            </p>
+            {extraction.preview && (
+              <p className="line-clamp-4 whitespace-pre-line">
+                {extraction.preview}
+              </p>
+            )}
+          </div>
+        )}
       </TooltipContent>
     </Tooltip>
   );
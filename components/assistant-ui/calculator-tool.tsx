@@ -0,0 +1,78 @@
+import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
+import { CalculatorIcon, LoaderIcon, XCircleIcon } from "lucide-react";
+
+import {
+  getToolCallError,
+  getToolCallState,
+} from "@/components/assistant-ui/tool-fallback";
+import type { CalculationResult } from "@/lib/calculator";
+import { cn } from "@/lib/utils";
+
+type CalculatorArgs = {
+  expression?: string;
+  targetUnit?: string;
+  significantFigures?: number;
+};
+
+/**
+ * Renders a `calculate` tool call as the expression and its result,
+ * so the figures quoted in the answer can be checked
+ */
+export const CalculatorTool: ToolCallMessagePartComponent<
+  CalculatorArgs,
+  CalculationResult
+> = ({ args, result, isError, status }) => {
+  const state = getToolCallState({ status, result, isError });
+  const error = state === "error" ? getToolCallError({ status, result }) : null;
+  const expression = args.targetUnit
+    ? `${args.expression ?? ""} → ${args.targetUnit}`
+    : args.expression;
+
+  return (
+    <div
+      className={cn(
+        "aui-calculator-tool-root mb-4 flex w-full items-start gap-3 rounded-lg border px-4 py-3 text-sm",
+        state === "error" && "border-destructive/50",
+      )}
+      data-state={state}
+    >
+      <span
+        className={cn(
+          "aui-calculator-tool-icon mt-0.5 flex text-muted-foreground",
+          state === "error" && "text-destructive",
+        )}
+      >
+        {state === "running" ? (
+          <LoaderIcon className="size-4 animate-spin" />
+        ) : state === "error" ? (
+          <XCircleIcon className="size-4" />
+        ) : (
+          <CalculatorIcon className="size-4" />
+        )}
+      </span>
+      <div className="aui-calculator-tool-body flex min-w-0 flex-1 flex-col gap-1">
+        <code className="aui-calculator-tool-expression font-mono break-all">
+          {expression}
+        </code>
+        {state === "success" && result && (
+          <>
+            <div className="aui-calculator-tool-result font-mono text-base font-semibold">
+              = {result.result}
+            </div>
+            <div className="aui-calculator-tool-details text-xs text-muted-foreground">
+              {result.significantFigures} significant figures
+              {result.si && result.si !== result.result && <> · SI: {result.si}</>}
+            </div>
+          </>
+        )}
+        {state === "running" && (
+          <div className="text-xs text-muted-foreground">Calculating...</div>
+        )}
+        {state === "cancelled" && (
+          <div className="text-xs text-muted-foreground">Cancelled</div>
+        )}
+        {error && <div className="text-xs text-destructive">{error}</div>}
+      </div>
+    </div>
+  );
+};
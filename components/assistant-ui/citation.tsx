@@ -0,0 +1,188 @@
+"use client";
+
+import { useAssistantState } from "@assistant-ui/react";
+import { type FC, type ReactNode, useState } from "react";
+import { FileTextIcon, LoaderIcon } from "lucide-react";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import type { Citation } from "@/lib/knowledge-base";
+
+export const CITATION_HREF_PREFIX = "#citation-";
+
+// Markers as instructed in the knowledge base context: [S1], or [S1, S2] for several sources
+const CITATION_PATTERN = /\[(S\d+(?:\s*[,;]\s*S\d+)*)\]/g;
+
+type MarkdownNode = {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string };
+};
+
+const toCitationNodes = (text: string): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index > lastIndex) {
+      nodes.push({ type: "text", value: text.slice(lastIndex, match.index) });
+    }
+    for (const sourceId of match[1].split(/\s*[,;]\s*/)) {
+      // Rendered as <sup><a href="#citation-S1">1</a></sup>
+      nodes.push({
+        type: "citation",
+        data: { hName: "sup" },
+        children: [
+          {
+            type: "link",
+            url: `${CITATION_HREF_PREFIX}${sourceId}`,
+            children: [{ type: "text", value: sourceId.slice(1) }],
+          },
+        ],
+      });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return nodes;
+};
+
+const linkCitations = (node: MarkdownNode) => {
+  if (!node.children || node.type === "link" || node.type === "linkReference") {
+    return;
+  }
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text" && child.value?.includes("[S")) {
+      return toCitationNodes(child.value);
+    }
+    linkCitations(child);
+    return [child];
+  });
+};
+
+/**
+ * Remark plugin turning knowledge base citation markers into superscript links.
+ * Only text nodes are rewritten, so markers in code and math stay as written.
+ */
+export const remarkCitations = () => (tree: MarkdownNode) => {
+  linkCitations(tree);
+};
+
+/**
+ * Citation mapping of the current message, sent by /api/chat as a `data-citations` part
+ */
+const useCitation = (sourceId: string): Citation | undefined =>
+  useAssistantState(({ message }) => {
+    for (const part of message.parts) {
+      if (part.type === "data" && part.name === "citations" && Array.isArray(part.data)) {
+        return (part.data as Citation[]).find((citation) => citation.sourceId === sourceId);
+      }
+    }
+    return undefined;
+  });
+
+type KnowledgeChunk = {
+  id: string;
+  position: number;
+  page: number | null;
+  content: string;
+  document: { id: string; title: string; category: string; fileName: string };
+};
+
+const CitationSource: FC<{ citation: Citation }> = ({ citation }) => {
+  const [chunk, setChunk] = useState<KnowledgeChunk | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const location =
+    citation.page !== null ? `Page ${citation.page}` : `Passage ${citation.position + 1}`;
+
+  const loadChunk = async () => {
+    if (chunk) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/knowledge-chunks/${citation.chunkId}`);
+      const data = await response.json();
+      if (response.ok) {
+        setChunk(data.chunk);
+      } else {
+        setError(
+          response.status === 404
+            ? "This source has been removed from the knowledge base."
+            : data.error || "Failed to load the source",
+        );
+      }
+    } catch {
+      setError("Failed to load the source");
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={(open) => open && loadChunk()}>
+      <SheetTrigger asChild>
+        <button
+          type="button"
+          className="aui-citation-link cursor-pointer px-0.5 text-xs font-medium text-primary hover:underline"
+          aria-label={`Source ${citation.sourceId}: ${citation.title}`}
+          title={citation.title}
+        >
+          {citation.sourceId.slice(1)}
+        </button>
+      </SheetTrigger>
+      <SheetContent className="aui-citation-sheet sm:max-w-lg">
+        <SheetHeader className="border-b">
+          <SheetTitle className="flex items-center gap-2 pr-6">
+            <FileTextIcon className="size-4 shrink-0" />
+            {chunk?.document.title ?? citation.title}
+          </SheetTitle>
+          <SheetDescription>
+            [{citation.sourceId}] · {location}
+            {chunk && <> · {chunk.document.fileName}</>}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="aui-citation-sheet-body flex-1 overflow-y-auto px-4 pb-4">
+          {chunk ? (
+            <p className="text-sm leading-6 whitespace-pre-wrap">{chunk.content}</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <LoaderIcon className="size-4 animate-spin" />
+              Loading source...
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+/**
+ * Citation marker link; opens the cited knowledge base passage in a side sheet.
+ * Markers without a matching source (e.g. invented by the model) are shown as plain text.
+ */
+export const CitationLink: FC<{ sourceId: string; children?: ReactNode }> = ({
+  sourceId,
+  children,
+}) => {
+  const citation = useCitation(sourceId);
+
+  if (!citation) {
+    return (
+      <span className="aui-citation-unknown text-muted-foreground" title="Unknown source">
+        {children ?? sourceId}
+      </span>
+    );
+  }
+
+  return <CitationSource citation={citation} />;
+};
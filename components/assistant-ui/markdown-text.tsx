@@ -1,53 +1,205 @@
 "use client";
 
 import "@assistant-ui/react-markdown/styles/dot.css";
+import "katex/dist/katex.min.css";
+// Copying rendered math copies its LaTeX source
+import "katex/contrib/copy-tex";
 
 import {
   type CodeHeaderProps,
+  type SyntaxHighlighterProps,
   MarkdownTextPrimitive,
   unstable_memoizeMarkdownComponents as memoizeMarkdownComponents,
   useIsMarkdownCodeBlock,
 } from "@assistant-ui/react-markdown";
 import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
 import { type FC, memo, useState } from "react";
-import { CheckIcon, CopyIcon } from "lucide-react";
+import {
+  CheckIcon,
+  CopyIcon,
+  DownloadIcon,
+  FileImageIcon,
+  ImageDownIcon,
+  ListOrderedIcon,
+  WrapTextIcon,
+} from "lucide-react";
 
+import {
+  CITATION_HREF_PREFIX,
+  CitationLink,
+  remarkCitations,
+} from "@/components/assistant-ui/citation";
+import {
+  exportMermaidDiagram,
+  MermaidDiagram,
+} from "@/components/assistant-ui/mermaid-diagram";
+import {
+  CodeBlockContent,
+  getCodeFileName,
+} from "@/components/assistant-ui/syntax-highlighter";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
 import { cn } from "@/lib/utils";
 
+/**
+ * Convert \(...\) and \[...\] math delimiters, which models often emit, to the
+ * $$...$$ syntax of remark-math: inline for \(...\), as a block for \[...\].
+ * Code blocks and inline code are left untouched.
+ */
+const normalizeMathDelimiters = (text: string): string =>
+  text
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((chunk, index) =>
+      // Odd chunks are the code captured by the split
+      index % 2 === 1
+        ? chunk
+        : chunk
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+            .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$$${math}$$`),
+    )
+    .join("");
+
 const MarkdownTextImpl = () => {
   return (
     <MarkdownTextPrimitive
-      remarkPlugins={[remarkGfm]}
+      // Single dollars stay text, so that prices such as "$5 and $10" aren't typeset
+      remarkPlugins={[
+        remarkGfm,
+        [remarkMath, { singleDollarTextMath: false }],
+        remarkCitations,
+      ]}
+      rehypePlugins={[[rehypeKatex, { throwOnError: false }]]}
+      preprocess={normalizeMathDelimiters}
       className="aui-md"
       components={defaultComponents}
+      componentsByLanguage={componentsByLanguage}
     />
   );
 };
 
 export const MarkdownText = memo(MarkdownTextImpl);
 
-const CodeHeader: FC<CodeHeaderProps> = ({ language, code }) => {
+type CodeBlockOptions = {
+  wrap: boolean;
+  showLineNumbers: boolean;
+  onToggleWrap: () => void;
+  onToggleLineNumbers: () => void;
+};
+
+const CodeHeader: FC<CodeHeaderProps & Partial<CodeBlockOptions>> = ({
+  language,
+  code,
+  wrap,
+  showLineNumbers,
+  onToggleWrap,
+  onToggleLineNumbers,
+}) => {
   const { isCopied, copyToClipboard } = useCopyToClipboard();
   const onCopy = () => {
     if (!code || isCopied) return;
     copyToClipboard(code);
   };
 
+  const onDownload = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getCodeFileName(language);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="aui-code-header-root mt-4 flex items-center justify-between gap-4 rounded-t-lg bg-muted-foreground/15 px-4 py-2 text-sm font-semibold text-foreground dark:bg-muted-foreground/20">
       <span className="aui-code-header-language lowercase [&>span]:text-xs">
         {language}
       </span>
-      <TooltipIconButton tooltip="Copy" onClick={onCopy}>
-        {!isCopied && <CopyIcon />}
-        {isCopied && <CheckIcon />}
-      </TooltipIconButton>
+      <div className="aui-code-header-actions flex items-center gap-1">
+        {language === "mermaid" && <MermaidExportActions code={code} />}
+        {onToggleLineNumbers && (
+          <TooltipIconButton
+            tooltip={showLineNumbers ? "Hide line numbers" : "Show line numbers"}
+            onClick={onToggleLineNumbers}
+            className={cn(showLineNumbers && "text-foreground")}
+            aria-pressed={showLineNumbers}
+          >
+            <ListOrderedIcon />
+          </TooltipIconButton>
+        )}
+        {onToggleWrap && (
+          <TooltipIconButton
+            tooltip={wrap ? "Disable line wrap" : "Wrap lines"}
+            onClick={onToggleWrap}
+            className={cn(wrap && "text-foreground")}
+            aria-pressed={wrap}
+          >
+            <WrapTextIcon />
+          </TooltipIconButton>
+        )}
+        <TooltipIconButton tooltip={`Download ${getCodeFileName(language)}`} onClick={onDownload}>
+          <DownloadIcon />
+        </TooltipIconButton>
+        <TooltipIconButton tooltip="Copy" onClick={onCopy}>
+          {!isCopied && <CopyIcon />}
+          {isCopied && <CheckIcon />}
+        </TooltipIconButton>
+      </div>
     </div>
   );
 };
 
-const useCopyToClipboard = ({
+/**
+ * Header for code blocks without a language, which skip the syntax highlighter
+ */
+const PlainCodeHeader: FC<CodeHeaderProps> = (props) =>
+  props.language ? null : <CodeHeader {...props} />;
+
+/**
+ * Code block with its header: both share the wrap and line number settings,
+ * so the highlighter renders the header itself
+ */
+const CodeBlock: FC<SyntaxHighlighterProps> = (props) => {
+  const [wrap, setWrap] = useState(false);
+  const [showLineNumbers, setShowLineNumbers] = useState(true);
+
+  return (
+    <>
+      <CodeHeader
+        language={props.language}
+        code={props.code}
+        wrap={wrap}
+        showLineNumbers={showLineNumbers}
+        onToggleWrap={() => setWrap(!wrap)}
+        onToggleLineNumbers={() => setShowLineNumbers(!showLineNumbers)}
+      />
+      <CodeBlockContent {...props} wrap={wrap} showLineNumbers={showLineNumbers} />
+    </>
+  );
+};
+
+const MermaidExportActions: FC<{ code: string }> = ({ code }) => {
+  const onExport = (format: "svg" | "png") => {
+    exportMermaidDiagram(code, format)
+      .then((exported) => {
+        if (!exported) alert("This diagram could not be rendered");
+      })
+      .catch(() => alert("Failed to export diagram"));
+  };
+
+  return (
+    <>
+      <TooltipIconButton tooltip="Export SVG" onClick={() => onExport("svg")}>
+        <FileImageIcon />
+      </TooltipIconButton>
+      <TooltipIconButton tooltip="Export PNG" onClick={() => onExport("png")}>
+        <ImageDownIcon />
+      </TooltipIconButton>
+    </>
+  );
+};
+
+export const useCopyToClipboard = ({
   copiedDuration = 3000,
 }: {
   copiedDuration?: number;
@@ -104,6 +256,10 @@ const fallbackCopyToClipboard = (
   }
 };
 
+const componentsByLanguage = {
+  mermaid: { SyntaxHighlighter: MermaidDiagram, CodeHeader },
+};
+
 const defaultComponents = memoizeMarkdownComponents({
   h1: ({ className, ...props }) => (
     <h1
@@ -168,15 +324,22 @@ const defaultComponents = memoizeMarkdownComponents({
       {...props}
     />
   ),
-  a: ({ className, ...props }) => (
-    <a
-      className={cn(
-        "aui-md-a font-medium text-primary underline underline-offset-4",
-        className,
-      )}
-      {...props}
-    />
-  ),
+  a: ({ className, href, ...props }) =>
+    // Knowledge base citation markers, see remarkCitations
+    href?.startsWith(CITATION_HREF_PREFIX) ? (
+      <CitationLink sourceId={href.slice(CITATION_HREF_PREFIX.length)}>
+        {props.children}
+      </CitationLink>
+    ) : (
+      <a
+        className={cn(
+          "aui-md-a font-medium text-primary underline underline-offset-4",
+          className,
+        )}
+        href={href}
+        {...props}
+      />
+    ),
   blockquote: ({ className, ...props }) => (
     <blockquote
       className={cn("aui-md-blockquote border-l-2 pl-6 italic", className)}
@@ -262,5 +425,6 @@ const defaultComponents = memoizeMarkdownComponents({
       />
     );
   },
-  CodeHeader,
+  CodeHeader: PlainCodeHeader,
+  SyntaxHighlighter: CodeBlock,
 });
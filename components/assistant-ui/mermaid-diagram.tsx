@@ -0,0 +1,153 @@
+"use client";
+
+import type { SyntaxHighlighterProps } from "@assistant-ui/react-markdown";
+import { useEffect, useId, useState, type FC } from "react";
+
+import { cn } from "@/lib/utils";
+
+type Mermaid = typeof import("mermaid").default;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+/**
+ * Load mermaid on first use; it is large and most answers contain no diagram
+ */
+const loadMermaid = (): Promise<Mermaid> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: "strict",
+        theme: "neutral",
+      });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+let renderCount = 0;
+
+/**
+ * Render mermaid source to an SVG string
+ * @returns The SVG markup, or null when the source doesn't parse
+ */
+export const renderMermaid = async (
+  code: string,
+  id = `mermaid-${++renderCount}`,
+): Promise<string | null> => {
+  const mermaid = await loadMermaid();
+  if (!(await mermaid.parse(code, { suppressErrors: true }))) {
+    return null;
+  }
+  const { svg } = await mermaid.render(id, code);
+  return svg;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Rasterize an SVG string through a canvas, at twice its size for sharper output.
+ * Mermaid sizes its SVGs with width="100%", so the viewBox gives the real dimensions.
+ */
+const svgToPng = (svg: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const viewBox = svg.match(/viewBox="[\d.-]+ [\d.-]+ ([\d.]+) ([\d.]+)"/);
+    const image = new Image();
+    image.onload = () => {
+      const scale = 2;
+      const width = viewBox ? Number(viewBox[1]) : image.naturalWidth;
+      const height = viewBox ? Number(viewBox[2]) : image.naturalHeight;
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("PNG export failed"))),
+        "image/png",
+      );
+    };
+    image.onerror = () => reject(new Error("Failed to load SVG"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+/**
+ * Download a mermaid diagram as SVG or PNG
+ * @returns false when the source doesn't parse
+ */
+export const exportMermaidDiagram = async (
+  code: string,
+  format: "svg" | "png",
+): Promise<boolean> => {
+  const svg = await renderMermaid(code);
+  if (!svg) return false;
+
+  const blob =
+    format === "svg"
+      ? new Blob([svg], { type: "image/svg+xml" })
+      : await svgToPng(svg);
+  downloadBlob(blob, `diagram.${format}`);
+  return true;
+};
+
+/**
+ * Renders fenced `mermaid` code blocks as diagrams.
+ * Falls back to the source while it doesn't parse (e.g. during streaming) or when it's invalid.
+ *
+ * Pass it to MarkdownTextPrimitive through componentsByLanguage in markdown-text.tsx
+ */
+export const MermaidDiagram: FC<SyntaxHighlighterProps> = ({
+  components: { Pre, Code },
+  code,
+}) => {
+  const id = `mermaid-${useId().replace(/:/g, "")}`;
+  const [svg, setSvg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    renderMermaid(code, id)
+      .then((result) => {
+        if (!cancelled) setSvg(result);
+      })
+      .catch(() => {
+        if (!cancelled) setSvg(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, id]);
+
+  if (!svg) {
+    return (
+      <Pre>
+        <Code>{code}</Code>
+      </Pre>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "aui-mermaid-diagram flex justify-center overflow-x-auto rounded-b-lg border bg-white p-4",
+        "[&_svg]:h-auto [&_svg]:max-w-full",
+      )}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
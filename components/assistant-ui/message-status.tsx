@@ -0,0 +1,38 @@
+"use client";
+
+import { useAssistantState } from "@assistant-ui/react";
+import type { FC } from "react";
+import { CircleStopIcon, TriangleAlertIcon } from "lucide-react";
+
+/**
+ * Notice under an answer that didn't complete, read from the `data-status` part that
+ * history adds to answers saved as "aborted" or "error" (and the stop button to live ones)
+ */
+export const MessageStatusNotice: FC = () => {
+  const status = useAssistantState(({ message }) => {
+    for (const part of message.parts) {
+      if (part.type === "data" && part.name === "status") return part.data;
+    }
+    return undefined;
+  });
+
+  if (status === "aborted") {
+    return (
+      <div className="aui-message-status mt-2 flex items-center gap-1.5 text-xs text-muted-foreground" role="status">
+        <CircleStopIcon className="size-3.5 shrink-0" />
+        Stopped before the end; this answer is incomplete.
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <div className="aui-message-status mt-2 flex items-center gap-1.5 text-xs text-destructive" role="status">
+        <TriangleAlertIcon className="size-3.5 shrink-0" />
+        Interrupted by an error; this answer is incomplete.
+      </div>
+    );
+  }
+
+  return null;
+};
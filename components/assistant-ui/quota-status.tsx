@@ -0,0 +1,98 @@
+"use client";
+
+import { useAssistantState } from "@assistant-ui/react";
+import { type FC, useEffect, useState } from "react";
+import { GaugeIcon, TriangleAlertIcon } from "lucide-react";
+
+import type { QuotaKind, QuotaStatus as Allowance, QuotaUsage } from "@/lib/quotas";
+import { cn } from "@/lib/utils";
+
+const UNITS: Record<QuotaKind, [string, string]> = {
+  messages: ["message", "messages"],
+  tokens: ["token", "tokens"],
+  imageRequests: ["image request", "image requests"],
+};
+
+const formatCount = (count: number, kind: QuotaKind) =>
+  `${count.toLocaleString()} ${UNITS[kind][count === 1 ? 0 : 1]}`;
+
+const formatReset = (resetAt: string) =>
+  new Date(resetAt).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const describeBlock = (usage: QuotaUsage) => {
+  const period = usage.period === "day" ? "Daily" : "Monthly";
+  const limit = `${period} ${UNITS[usage.kind][0]} limit reached (${formatCount(usage.max, usage.kind)})`;
+  const blocked =
+    usage.kind === "imageRequests" ? "messages with images are blocked" : "sending is blocked";
+  return `${limit}: ${blocked} until ${formatReset(usage.resetAt)}.`;
+};
+
+/**
+ * The limit closest to running out, by share of its maximum
+ */
+const getTightestLimit = (limits: QuotaUsage[]) =>
+  [...limits].sort((a, b) => a.remaining / a.max - b.remaining / b.max)[0];
+
+/**
+ * Remaining chat allowance under the composer, refreshed after each answer.
+ * When a limit is exhausted (and /api/chat answers 429), it says which and until when.
+ */
+export const QuotaStatus: FC = () => {
+  const isRunning = useAssistantState(({ thread }) => thread.isRunning);
+  const [status, setStatus] = useState<Allowance | null>(null);
+
+  useEffect(() => {
+    if (isRunning) return;
+
+    let cancelled = false;
+    fetch("/api/quota")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: Allowance | null) => {
+        if (!cancelled && data) setStatus(data);
+      })
+      .catch(() => {
+        // The composer works without the allowance
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isRunning]);
+
+  if (!status || status.limits.length === 0) return null;
+
+  if (status.exceeded) {
+    return (
+      <div
+        className="aui-quota-status -mt-2 flex items-start gap-1.5 px-3 text-xs text-destructive"
+        role="status"
+        data-blocked
+      >
+        <TriangleAlertIcon className="mt-px size-3.5 shrink-0" />
+        <span>{describeBlock(status.exceeded)}</span>
+      </div>
+    );
+  }
+
+  const tightest = getTightestLimit(status.limits);
+  const period = tightest.period === "day" ? "today" : "this month";
+
+  return (
+    <div
+      className={cn(
+        "aui-quota-status -mt-2 flex items-center gap-1.5 px-3 text-xs text-muted-foreground",
+        tightest.remaining / tightest.max <= 0.1 && "text-amber-600",
+      )}
+      role="status"
+      title={status.limits
+        .map((usage) => `${formatCount(usage.remaining, usage.kind)} left ${usage.period === "day" ? "today" : "this month"}`)
+        .join("\n")}
+    >
+      <GaugeIcon className="size-3.5 shrink-0" />
+      {formatCount(tightest.remaining, tightest.kind)} of {tightest.max.toLocaleString()} left {period}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+"use client";
+
+import { type FC, useEffect, useState } from "react";
+import {
+  CircleHelpIcon,
+  ShieldCheckIcon,
+  TriangleAlertIcon,
+} from "lucide-react";
+
+import type { CheckedReference } from "@/lib/standard-references";
+import { cn } from "@/lib/utils";
+
+type ReferenceCheck = {
+  references: CheckedReference[];
+  registrySize: number;
+};
+
+// Checks by section text, so re-rendered or reopened cards don't query again
+const checkCache = new Map<string, Promise<ReferenceCheck>>();
+
+const checkReferences = (text: string): Promise<ReferenceCheck> => {
+  let check = checkCache.get(text);
+  if (!check) {
+    check = fetch("/api/standards/check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text }),
+    }).then((response) => {
+      if (!response.ok) throw new Error("Failed to check references");
+      return response.json();
+    });
+    check.catch(() => checkCache.delete(text));
+    checkCache.set(text, check);
+  }
+  return check;
+};
+
+const describeFlag = (reference: CheckedReference): string => {
+  if (reference.status === "unknown") {
+    return "not found in the standard registry, check that it exists";
+  }
+  const standard = reference.standard;
+  if (standard?.status === "current") {
+    return `not the current edition (${standard.code}${standard.edition ? `:${standard.edition}` : ""})`;
+  }
+  return standard?.replacedBy ? `withdrawn, replaced by ${standard.replacedBy}` : "withdrawn";
+};
+
+/**
+ * Flags the standards cited in a "Références normatives" section that are unknown to the
+ * registry or withdrawn. Nothing is shown while the registry is empty.
+ */
+export const ReferenceFlags: FC<{ text: string }> = ({ text }) => {
+  const [check, setCheck] = useState<ReferenceCheck | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkReferences(text)
+      .then((result) => {
+        if (!cancelled) setCheck(result);
+      })
+      .catch(() => {
+        // The answer stays readable without the check
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [text]);
+
+  if (!check || check.registrySize === 0 || check.references.length === 0) {
+    return null;
+  }
+
+  const flagged = check.references.filter((reference) => reference.status !== "known");
+
+  return (
+    <div className="aui-reference-flags mt-3 flex flex-col gap-1.5 border-t pt-3 text-xs">
+      {flagged.length === 0 ? (
+        <div className="flex items-center gap-1.5 text-muted-foreground">
+          <ShieldCheckIcon className="size-3.5 shrink-0" />
+          {check.references.length === 1
+            ? "The cited standard is in the registry"
+            : `All ${check.references.length} cited standards are in the registry`}
+        </div>
+      ) : (
+        flagged.map((reference) => {
+          const Icon = reference.status === "unknown" ? CircleHelpIcon : TriangleAlertIcon;
+          return (
+            <div
+              key={reference.key}
+              className={cn(
+                "aui-reference-flag flex items-start gap-1.5",
+                reference.status === "unknown" ? "text-destructive" : "text-amber-600",
+              )}
+              data-status={reference.status}
+            >
+              <Icon className="mt-px size-3.5 shrink-0" />
+              <span>
+                <span className="font-semibold">{reference.code}</span>: {describeFlag(reference)}
+              </span>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+"use client";
+
+import {
+  BookOpenIcon,
+  CheckIcon,
+  ChevronDownIcon,
+  CopyIcon,
+  FileTextIcon,
+  LightbulbIcon,
+  SearchIcon,
+  TriangleAlertIcon,
+  WorkflowIcon,
+  ZapIcon,
+  type LucideIcon,
+} from "lucide-react";
+import { memo, useMemo, useState, type FC } from "react";
+
+import {
+  TextMessagePartProvider,
+  type TextMessagePartComponent,
+} from "@assistant-ui/react";
+
+import {
+  MarkdownText,
+  useCopyToClipboard,
+} from "@/components/assistant-ui/markdown-text";
+import { ReferenceFlags } from "@/components/assistant-ui/reference-flags";
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  parseResponseSections,
+  type ParsedSection,
+  type SectionKey,
+} from "@/lib/response-structure";
+import { cn } from "@/lib/utils";
+
+const sectionIcons: Record<SectionKey, LucideIcon> = {
+  summary: FileTextIcon,
+  analysis: SearchIcon,
+  references: BookOpenIcon,
+  logic: WorkflowIcon,
+  solutions: LightbulbIcon,
+  caveats: TriangleAlertIcon,
+  short: ZapIcon,
+};
+
+// Sections kept by the "short version only" toggle
+const SHORT_VERSION_SECTIONS: SectionKey[] = ["summary", "short"];
+
+// Answers with fewer recognized sections are rendered as plain markdown
+const MIN_SECTIONS = 2;
+
+/**
+ * Renders a markdown fragment through MarkdownText, which reads its text from the part context
+ */
+const MarkdownFragment: FC<{ text: string; isRunning: boolean }> = ({
+  text,
+  isRunning,
+}) => (
+  <TextMessagePartProvider text={text} isRunning={isRunning}>
+    <MarkdownText />
+  </TextMessagePartProvider>
+);
+
+const SectionCopyButton: FC<{ section: ParsedSection }> = ({ section }) => {
+  const { isCopied, copyToClipboard } = useCopyToClipboard();
+
+  return (
+    <TooltipIconButton
+      tooltip="Copy section"
+      className="aui-section-card-copy size-7 p-1.5"
+      onClick={() => {
+        if (!isCopied) copyToClipboard(`**${section.heading}**\n\n${section.content}`);
+      }}
+    >
+      {isCopied ? <CheckIcon /> : <CopyIcon />}
+    </TooltipIconButton>
+  );
+};
+
+/**
+ * One answer section as a collapsible card: icon and heading in the trigger,
+ * markdown body in the content
+ */
+const SectionCard: FC<{ section: ParsedSection; isRunning: boolean }> = ({
+  section,
+  isRunning,
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const Icon = sectionIcons[section.key];
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="aui-section-card-root rounded-xl border bg-background"
+      data-section={section.key}
+    >
+      <div className="aui-section-card-header flex items-center gap-2 px-4 py-2">
+        <CollapsibleTrigger className="aui-section-card-trigger group/trigger flex flex-1 items-center gap-2 text-left font-semibold">
+          <Icon className="aui-section-card-icon size-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1">{section.heading}</span>
+          <ChevronDownIcon
+            className={cn(
+              "aui-section-card-chevron size-4 shrink-0 text-muted-foreground transition-transform duration-200 ease-out",
+              "group-data-[state=closed]/trigger:-rotate-90",
+            )}
+          />
+        </CollapsibleTrigger>
+        <SectionCopyButton section={section} />
+      </div>
+      <CollapsibleContent className="aui-section-card-content overflow-hidden px-4 pb-4 data-[state=closed]:animate-collapsible-up data-[state=open]:animate-collapsible-down">
+        {section.content && (
+          <MarkdownFragment text={section.content} isRunning={isRunning} />
+        )}
+        {section.key === "references" && section.content && !isRunning && (
+          <ReferenceFlags text={section.content} />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+/**
+ * Text part renderer for assistant answers. Answers following the numbered section
+ * structure are split into collapsible cards; anything else renders as plain markdown.
+ *
+ * Pass StructuredAnswer as the Text component of MessagePrimitive.Parts in thread.tsx
+ */
+const StructuredAnswerImpl: TextMessagePartComponent = ({ text, status }) => {
+  const [shortOnly, setShortOnly] = useState(false);
+  const isRunning = status.type === "running";
+  const { preamble, sections } = useMemo(
+    () => parseResponseSections(text),
+    [text],
+  );
+
+  if (sections.length < MIN_SECTIONS) {
+    return <MarkdownText />;
+  }
+
+  const hasShortVersion = sections.some((section) =>
+    SHORT_VERSION_SECTIONS.includes(section.key),
+  );
+  const visibleSections =
+    shortOnly && hasShortVersion
+      ? sections.filter((section) => SHORT_VERSION_SECTIONS.includes(section.key))
+      : sections;
+
+  return (
+    <div className="aui-structured-answer flex flex-col gap-3">
+      {hasShortVersion && (
+        <div className="aui-structured-answer-toolbar flex justify-end">
+          <Button
+            variant={shortOnly ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs text-muted-foreground"
+            aria-pressed={shortOnly}
+            onClick={() => setShortOnly(!shortOnly)}
+          >
+            <ZapIcon className="size-3.5" />
+            Short version only
+          </Button>
+        </div>
+      )}
+      {preamble && !shortOnly && (
+        <MarkdownFragment text={preamble} isRunning={false} />
+      )}
+      {visibleSections.map((section, index) => (
+        <SectionCard
+          key={`${section.key}-${index}`}
+          section={section}
+          isRunning={isRunning && section === sections[sections.length - 1]}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const StructuredAnswer = memo(StructuredAnswerImpl);
+StructuredAnswer.displayName = "StructuredAnswer";
@@ -0,0 +1,177 @@
+"use client";
+
+import type { SyntaxHighlighterProps } from "@assistant-ui/react-markdown";
+import { useEffect, useState, type CSSProperties, type FC } from "react";
+
+import { cn } from "@/lib/utils";
+
+const THEME = "github-dark";
+
+// Wait for the code to stop changing before highlighting, so streaming stays smooth
+const HIGHLIGHT_DELAY = 250;
+
+// Fenced-block languages that don't map to a file extension of the same name
+const fileExtensions: Record<string, string> = {
+  bash: "sh",
+  shell: "sh",
+  zsh: "sh",
+  console: "sh",
+  powershell: "ps1",
+  javascript: "js",
+  typescript: "ts",
+  python: "py",
+  py: "py",
+  ruby: "rb",
+  rust: "rs",
+  kotlin: "kt",
+  csharp: "cs",
+  "c#": "cs",
+  "c++": "cpp",
+  fsharp: "fs",
+  golang: "go",
+  markdown: "md",
+  yml: "yaml",
+  latex: "tex",
+  text: "txt",
+  plaintext: "txt",
+  mermaid: "mmd",
+  dockerfile: "Dockerfile",
+  makefile: "Makefile",
+};
+
+/**
+ * File name to use when downloading a code block, e.g. "snippet.py" for python
+ */
+export const getCodeFileName = (language: string | undefined): string => {
+  const normalized = (language ?? "").toLowerCase();
+  const extension =
+    fileExtensions[normalized] ??
+    (/^[a-z0-9]{1,10}$/.test(normalized) ? normalized : "txt");
+
+  // Files like Dockerfile have no extension
+  return /^[A-Z]/.test(extension) ? extension : `snippet.${extension}`;
+};
+
+interface HighlightedToken {
+  content: string;
+  color?: string;
+  fontStyle?: number;
+}
+
+interface Highlighted {
+  code: string;
+  lines: HighlightedToken[][];
+}
+
+/**
+ * Tokenize code with shiki, loaded on first use along with the grammar of the language
+ */
+const highlightCode = async (
+  code: string,
+  language: string,
+): Promise<HighlightedToken[][]> => {
+  const { bundledLanguages, codeToTokens } = await import("shiki");
+  const lang = language in bundledLanguages ? language : "text";
+  const { tokens } = await codeToTokens(code, {
+    lang: lang as keyof typeof bundledLanguages,
+    theme: THEME,
+  });
+  return tokens;
+};
+
+// Shiki font style flags
+const tokenStyle = (token: HighlightedToken): CSSProperties => ({
+  color: token.color,
+  fontStyle: token.fontStyle && token.fontStyle & 1 ? "italic" : undefined,
+  fontWeight: token.fontStyle && token.fontStyle & 2 ? "bold" : undefined,
+  textDecoration: token.fontStyle && token.fontStyle & 4 ? "underline" : undefined,
+});
+
+/**
+ * Lines to display: highlighted tokens where available, plain text for lines
+ * streamed in since the last highlight
+ */
+const getDisplayLines = (
+  code: string,
+  highlighted: Highlighted | null,
+): HighlightedToken[][] => {
+  const plainLines = code.split("\n").map((line) => [{ content: line }]);
+  if (!highlighted || !code.startsWith(highlighted.code)) {
+    return plainLines;
+  }
+  if (highlighted.code === code) {
+    return highlighted.lines;
+  }
+
+  // The last highlighted line may have been incomplete
+  const stableLines = highlighted.lines.slice(0, -1);
+  return [...stableLines, ...plainLines.slice(stableLines.length)];
+};
+
+export type CodeBlockContentProps = SyntaxHighlighterProps & {
+  wrap: boolean;
+  showLineNumbers: boolean;
+};
+
+/**
+ * Highlighted code block body with optional line numbers and line wrapping
+ */
+export const CodeBlockContent: FC<CodeBlockContentProps> = ({
+  components: { Pre },
+  language,
+  code,
+  wrap,
+  showLineNumbers,
+}) => {
+  const [highlighted, setHighlighted] = useState<Highlighted | null>(null);
+  const trimmedCode = code.replace(/\n$/, "");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      highlightCode(trimmedCode, language.toLowerCase())
+        .then((lines) => {
+          if (!cancelled) setHighlighted({ code: trimmedCode, lines });
+        })
+        .catch(() => {
+          // Keep the plain rendering
+        });
+    }, HIGHLIGHT_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedCode, language]);
+
+  const lines = getDisplayLines(trimmedCode, highlighted);
+
+  return (
+    <Pre className="aui-code-block-content">
+      <code className="aui-code-block-code grid">
+        {lines.map((tokens, index) => (
+          <span key={index} className="aui-code-block-line flex">
+            {showLineNumbers && (
+              <span
+                aria-hidden
+                className="aui-code-block-line-number mr-4 inline-block w-[3ch] shrink-0 text-right text-white/40 select-none"
+              >
+                {index + 1}
+              </span>
+            )}
+            <span className={cn("min-w-0", wrap ? "whitespace-pre-wrap break-all" : "whitespace-pre")}>
+              {tokens.map((token, tokenIndex) => (
+                <span key={tokenIndex} style={tokenStyle(token)}>
+                  {token.content}
+                </span>
+              ))}
+              {/* Keep the height of empty lines */}
+              {tokens.every((token) => !token.content) && " "}
+            </span>
+          </span>
+        ))}
+      </code>
+    </Pre>
+  );
+};
@@ -17,6 +17,7 @@ import {
   ErrorPrimitive,
   MessagePrimitive,
   ThreadPrimitive,
+  useAssistantState,
 } from "@assistant-ui/react";
 
 import type { FC } from "react";
@@ -24,9 +25,12 @@ import { LazyMotion, MotionConfig, domAnimation } from "motion/react";
 import * as m from "motion/react-m";
 
 import { Button } from "@/components/ui/button";
-import { MarkdownText } from "@/components/assistant-ui/markdown-text";
+import { MessageStatusNotice } from "@/components/assistant-ui/message-status";
+import { QuotaStatus } from "@/components/assistant-ui/quota-status";
 import { Reasoning, ReasoningGroup } from "@/components/assistant-ui/reasoning";
+import { StructuredAnswer } from "@/components/assistant-ui/structured-answer";
 import { ToolFallback } from "@/components/assistant-ui/tool-fallback";
+import { toolRenderers } from "@/components/assistant-ui/tool-renderers";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
 import {
   ComposerAddAttachment,
@@ -187,6 +191,7 @@ const Composer: FC = () => {
           <ComposerAction />
         </ComposerPrimitive.AttachmentDropzone>
       </ComposerPrimitive.Root>
+      <QuotaStatus />
     </div>
   );
 };
@@ -229,11 +234,31 @@ const ComposerAction: FC = () => {
   );
 };
 
+// Failed requests carry the API's JSON error body; show its message (e.g. why an attachment
+// was rejected) rather than the raw JSON
+const formatMessageError = (error: unknown) => {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(text);
+    return String(body.message || body.error || text);
+  } catch {
+    return text;
+  }
+};
+
 const MessageError: FC = () => {
+  const error = useAssistantState(({ message }) =>
+    message.status?.type === "incomplete" && message.status.reason === "error"
+      ? message.status.error
+      : undefined,
+  );
+
   return (
     <MessagePrimitive.Error>
       <ErrorPrimitive.Root className="aui-message-error-root mt-2 rounded-md border border-destructive bg-destructive/10 p-3 text-sm text-destructive dark:bg-destructive/5 dark:text-red-200">
-        <ErrorPrimitive.Message className="aui-message-error-message line-clamp-2" />
+        <ErrorPrimitive.Message className="aui-message-error-message line-clamp-2">
+          {error === undefined ? undefined : formatMessageError(error)}
+        </ErrorPrimitive.Message>
       </ErrorPrimitive.Root>
     </MessagePrimitive.Error>
   );
@@ -249,13 +274,14 @@ const AssistantMessage: FC = () => {
         <div className="aui-assistant-message-content mx-2 leading-7 break-words text-foreground">
           <MessagePrimitive.Parts
             components={{
-              Text: MarkdownText,
+              Text: StructuredAnswer,
               Reasoning: Reasoning,
               ReasoningGroup: ReasoningGroup,
-              tools: { Fallback: ToolFallback },
+              tools: { by_name: toolRenderers, Fallback: ToolFallback },
             }}
           />
           <MessageError />
+          <MessageStatusNotice />
         </div>
 
         <div className="aui-assistant-message-footer mt-2 ml-2 flex">
@@ -1,25 +1,102 @@
-import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
-import { CheckIcon, ChevronDownIcon, ChevronUpIcon } from "lucide-react";
+import type {
+  ToolCallMessagePartComponent,
+  ToolCallMessagePartProps,
+} from "@assistant-ui/react";
+import {
+  CheckIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  CircleSlashIcon,
+  LoaderIcon,
+  XCircleIcon,
+} from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
 
+type ToolCallState = "running" | "error" | "cancelled" | "success";
+
+/**
+ * Derive the display state of a tool call from its part status and result
+ */
+export const getToolCallState = ({
+  status,
+  result,
+  isError,
+}: Pick<ToolCallMessagePartProps, "status" | "result" | "isError">): ToolCallState => {
+  if (isError) return "error";
+  if (result !== undefined) return "success";
+  if (status.type === "running" || status.type === "requires-action") return "running";
+  return status.type === "incomplete" && status.reason === "error" ? "error" : "cancelled";
+};
+
+/**
+ * Error message of a failed tool call, from the tool result or the part status
+ */
+export const getToolCallError = ({
+  status,
+  result,
+}: Pick<ToolCallMessagePartProps, "status" | "result">): string | null => {
+  if (result && typeof result === "object" && "error" in result) {
+    return String(result.error);
+  }
+  if (status.type === "incomplete" && status.error) {
+    return status.error instanceof Error ? status.error.message : String(status.error);
+  }
+  return null;
+};
+
+const stateConfig = {
+  running: { icon: LoaderIcon, label: "Running tool", className: "text-muted-foreground [&_svg]:animate-spin" },
+  error: { icon: XCircleIcon, label: "Tool failed", className: "text-destructive" },
+  cancelled: { icon: CircleSlashIcon, label: "Cancelled tool", className: "text-muted-foreground" },
+  success: { icon: CheckIcon, label: "Used tool", className: "" },
+};
+
+/**
+ * Generic renderer for tools without a custom renderer
+ */
 export const ToolFallback: ToolCallMessagePartComponent = ({
   toolName,
   argsText,
   result,
+  isError,
+  status,
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(true);
+  const state = getToolCallState({ status, result, isError });
+  const error = state === "error" ? getToolCallError({ status, result }) : null;
+  const { icon: Icon, label, className } = stateConfig[state];
+
   return (
-    <div className="aui-tool-fallback-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3">
+    <div
+      className={cn(
+        "aui-tool-fallback-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3",
+        state === "error" && "border-destructive/50",
+      )}
+      data-state={state}
+    >
       <div className="aui-tool-fallback-header flex items-center gap-2 px-4">
-        <CheckIcon className="aui-tool-fallback-icon size-4" />
+        <span className={cn("aui-tool-fallback-icon flex", className)}>
+          <Icon className="size-4" />
+        </span>
         <p className="aui-tool-fallback-title flex-grow">
-          Used tool: <b>{toolName}</b>
+          {label}: <b>{toolName}</b>
         </p>
-        <Button onClick={() => setIsCollapsed(!isCollapsed)}>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          aria-label={isCollapsed ? "Show details" : "Hide details"}
+        >
           {isCollapsed ? <ChevronUpIcon /> : <ChevronDownIcon />}
         </Button>
       </div>
+      {error && (
+        <p className="aui-tool-fallback-error px-4 text-sm text-destructive">
+          {error}
+        </p>
+      )}
       {!isCollapsed && (
         <div className="aui-tool-fallback-content flex flex-col gap-2 border-t pt-2">
           <div className="aui-tool-fallback-args-root px-4">
@@ -27,7 +104,7 @@ export const ToolFallback: ToolCallMessagePartComponent = ({
               {argsText}
             </pre>
           </div>
-          {result !== undefined && (
+          {result !== undefined && !error && (
             <div className="aui-tool-fallback-result-root border-t border-dashed px-4 pt-2">
               <p className="aui-tool-fallback-result-header font-semibold">
                 Result:
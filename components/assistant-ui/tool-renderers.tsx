@@ -0,0 +1,13 @@
+import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
+
+import { CalculatorTool } from "@/components/assistant-ui/calculator-tool";
+
+/**
+ * Custom renderers for server tools, keyed by the tool name registered in lib/chat-tools.ts.
+ * Tools without an entry are rendered by ToolFallback.
+ *
+ * Passed to MessagePrimitive.Parts in thread.tsx as `tools.by_name`
+ */
+export const toolRenderers: Record<string, ToolCallMessagePartComponent> = {
+  calculate: CalculatorTool,
+};
@@ -98,7 +98,8 @@ export function ChatInterface({ conversationId, onConversationCreated }: ChatInt
             // Extract images
             const imageParts = msg.content.filter((part: any) => 
               (part.type === 'image_url' && part.image_url?.url) ||
-              (part.type === 'image' && (part.image || part.url))
+              (part.type === 'image' && (part.image || part.url)) ||
+              (part.type === 'file' && part.url && part.mediaType?.startsWith('image/'))
             )
             images = imageParts.map((part: any) => 
               part.image_url?.url || part.image || part.url
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { PlusIcon, MessageSquare, Trash2 } from 'lucide-react'
+import { PlusIcon, MessageSquare, RefreshCw, Trash2 } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import { format } from 'date-fns'
 
@@ -21,6 +21,7 @@ interface ConversationListProps {
   onSelectConversation: (conversationId: string) => void
   onNewChat: () => void
   refreshTrigger?: number // Add refresh trigger prop
+  renamedConversation?: { id: string; title: string } | null // Title written after an answer
 }
 
 export function ConversationList({
@@ -28,9 +29,11 @@ export function ConversationList({
   onSelectConversation,
   onNewChat,
   refreshTrigger,
+  renamedConversation,
 }: ConversationListProps) {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [loading, setLoading] = useState(true)
+  const [retitlingId, setRetitlingId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchConversations()
@@ -50,6 +53,13 @@ export function ConversationList({
     }
   }, [currentConversationId])
 
+  // Apply titles written by the title model in place, without refetching the list
+  useEffect(() => {
+    if (renamedConversation) {
+      renameConversation(renamedConversation.id, renamedConversation.title)
+    }
+  }, [renamedConversation])
+
   // Expose refresh function to parent if needed
   useEffect(() => {
     // Auto-refresh conversations every 30 seconds to catch new ones
@@ -74,6 +84,34 @@ export function ConversationList({
     }
   }
 
+  function renameConversation(conversationId: string, title: string) {
+    setConversations(current =>
+      current.map(c => (c.id === conversationId ? { ...c, title } : c))
+    )
+  }
+
+  async function regenerateTitle(conversationId: string, event: React.MouseEvent) {
+    event.stopPropagation() // Prevent selecting the conversation
+    setRetitlingId(conversationId)
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/title`, {
+        method: 'POST',
+      })
+      const data = await response.json().catch(() => null)
+
+      if (response.ok) {
+        renameConversation(data.conversation.id, data.conversation.title)
+      } else {
+        alert(data?.message || data?.error || 'Failed to regenerate title')
+      }
+    } catch (error) {
+      alert('Failed to regenerate title')
+    } finally {
+      setRetitlingId(null)
+    }
+  }
+
   async function deleteConversation(conversationId: string, event: React.MouseEvent) {
     event.stopPropagation() // Prevent selecting the conversation
 
@@ -181,6 +219,17 @@ export function ConversationList({
                 {conversation._count.messages} messages
               </div>
             </div>
+            <button
+              onClick={(e) => regenerateTitle(conversation.id, e)}
+              disabled={retitlingId === conversation.id}
+              className={`-mr-1 p-1.5 rounded hover:bg-muted-foreground/10 text-muted-foreground hover:text-foreground group-hover:opacity-100 transition-opacity ${
+                retitlingId === conversation.id ? 'opacity-100' : 'opacity-0'
+              }`}
+              aria-label="Regenerate title"
+              title="Regenerate title"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${retitlingId === conversation.id ? 'animate-spin' : ''}`} />
+            </button>
             <button
               onClick={(e) => deleteConversation(conversation.id, e)}
               className="mr-2 p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
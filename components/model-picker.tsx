@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ModelPickerProps {
+  value: string | null
+  onChange: (model: string | null) => void
+}
+
+/**
+ * Lets the user explicitly pick one of the models exposed by the routing rules.
+ * Renders nothing when admins haven't exposed any choice.
+ */
+export function ModelPicker({ value, onChange }: ModelPickerProps) {
+  const [choices, setChoices] = useState<string[]>([])
+
+  useEffect(() => {
+    async function fetchChoices() {
+      try {
+        const response = await fetch('/api/model-choices')
+        if (response.ok) {
+          const data = await response.json()
+          setChoices(data.choices)
+        }
+      } catch (error) {
+        // Silently handle errors
+      }
+    }
+
+    fetchChoices()
+  }, [])
+
+  if (choices.length === 0) {
+    return null
+  }
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+      aria-label="Model"
+    >
+      <option value="">Auto</option>
+      {choices.map((choice) => (
+        <option key={choice} value={choice}>
+          {choice}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,20 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { BarChart3 } from 'lucide-react'
+
+export function UsageLink() {
+  const router = useRouter()
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => router.push('/usage')}
+    >
+      <BarChart3 className="h-4 w-4" />
+      Usage
+    </Button>
+  )
+}
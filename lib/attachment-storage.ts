@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+
+/**
+ * Where attachment bytes are kept, addressed by storage key
+ */
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer | null> // null when the object is gone
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Files under a local directory, one per key
+ */
+export function createLocalStorage(directory: string): AttachmentStorage {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(directory, key)
+    // Keys are generated, but never let one point outside the directory
+    if (!filePath.startsWith(path.resolve(directory) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, data)
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key))
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true })
+    },
+  }
+}
+
+/**
+ * Objects in an S3-compatible bucket (AWS S3, MinIO, R2...)
+ */
+export function createS3Storage({
+  bucket,
+  endpoint,
+  region,
+  accessKeyId,
+  secretAccessKey,
+  forcePathStyle,
+}: {
+  bucket: string
+  endpoint?: string
+  region: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  forcePathStyle: boolean
+}): AttachmentStorage {
+  const client = new S3Client({
+    endpoint,
+    region,
+    forcePathStyle,
+    // Without keys the SDK falls back to its default credential chain (instance roles...)
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  })
+
+  return {
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType })
+      )
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+        if (!object.Body) return null
+        return Buffer.from(await object.Body.transformToByteArray())
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null
+        throw error
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+  }
+}
+
+const globalForAttachmentStorage = globalThis as unknown as {
+  attachmentStorage: AttachmentStorage | undefined
+}
+
+/**
+ * ATTACHMENT_STORAGE=s3 keeps attachments in the S3_BUCKET bucket (S3_ENDPOINT, S3_REGION,
+ * S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE=true for MinIO); the default,
+ * local, writes them under ATTACHMENT_DIR (default ./data/attachments)
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (globalForAttachmentStorage.attachmentStorage) {
+    return globalForAttachmentStorage.attachmentStorage
+  }
+
+  let storage: AttachmentStorage
+  if (process.env.ATTACHMENT_STORAGE === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when ATTACHMENT_STORAGE=s3')
+    }
+    storage = createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    })
+  } else {
+    storage = createLocalStorage(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'data', 'attachments'))
+  }
+
+  globalForAttachmentStorage.attachmentStorage = storage
+  return storage
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it, mock } from 'node:test'
+import type { DocumentExtraction } from './document-extraction'
+
+process.env.EMBEDDING_MODEL = 'openai:text-embedding-3-small'
+process.env.OPENAI_API_KEY = 'test-key'
+process.env.DOCUMENT_CONTEXT_CHARACTERS = '40'
+
+const extraction: DocumentExtraction = {
+  kind: 'csv',
+  pageCount: null,
+  sheets: null,
+  characters: 60,
+  truncated: false,
+  preview: 'Tableau 1',
+  sections: [
+    { label: 'Lignes 1-2', text: 'Tableau 1 : sections des câbles' },
+    { label: 'Lignes 3-4', text: 'Tableau 2 : calibres des disjoncteurs' },
+  ],
+}
+
+// lib/prisma reuses the client found on globalThis: the document was stored, with its
+// passages, when it was first sent
+const attachmentQueries: unknown[] = []
+;(globalThis as any).prisma = {
+  llmProvider: { findMany: async () => [] },
+  attachment: {
+    findFirst: async (args: unknown) => {
+      attachmentQueries.push(args)
+      return {
+        id: 'attachment-1',
+        userId: 'user-1',
+        storageKey: 'user-1/attachment-1',
+        contentType: 'text/csv',
+        filename: 'tableaux.csv',
+        extraction,
+      }
+    },
+  },
+  attachmentPassage: {
+    findMany: async () => [
+      { label: 'Lignes 1-2', content: 'Tableau 1 : sections des câbles', embedding: [1, 0] },
+      { label: 'Lignes 3-4', content: 'Tableau 2 : calibres des disjoncteurs', embedding: [0, 1] },
+    ],
+  },
+  usageRecord: { create: async () => ({}) },
+}
+
+describe('resolveMessageFiles', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('reuses the stored passages of a document sent again inline', async () => {
+    const { resolveMessageFiles } = await import('./attachments')
+    const embeddedInputs: unknown[] = []
+    mock.method(globalThis, 'fetch', async (_url: unknown, init: { body: string }) => {
+      embeddedInputs.push(JSON.parse(init.body).input)
+      return Response.json({
+        object: 'list',
+        data: [{ object: 'embedding', index: 0, embedding: [0, 1] }],
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 5, total_tokens: 5 },
+      })
+    })
+
+    const data = `data:text/csv;base64,${Buffer.from('a;b\n1;2').toString('base64')}`
+    const [message] = await resolveMessageFiles(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Quel calibre ?' },
+            { type: 'file', data, mediaType: 'text/csv', filename: 'tableaux.csv' },
+          ],
+        },
+      ],
+      { userId: 'user-1', conversationId: 'conversation-1', question: 'Quel calibre ?' }
+    )
+
+    // Only the question is embedded
+    assert.deepEqual(embeddedInputs, [['Quel calibre ?']])
+    assert.equal(attachmentQueries.length, 1)
+    const document = (message.content as { type: string; text: string }[])[1]
+    assert.equal(document.type, 'text')
+    assert.match(document.text, /calibres des disjoncteurs/)
+    assert.doesNotMatch(document.text, /sections des câbles/)
+  })
+})
@@ -0,0 +1,438 @@
+import crypto from 'crypto'
+import { prisma } from './prisma'
+import { getAttachmentStorage } from './attachment-storage'
+import { createThumbnail, sniffMimeType } from './image-pipeline'
+import { getEmbeddingProvider } from './embeddings'
+import type { UsageContext } from './usage'
+import {
+  checkDocument,
+  DOCUMENT_CONTENT_TYPES,
+  embedDocumentPassages,
+  extractDocument,
+  formatDocumentForModel,
+  getDocumentKind,
+  needsPassageSelection,
+  type DocumentExtraction,
+  type DocumentPassage,
+} from './document-extraction'
+
+// Files sent with messages are stored once in the attachment storage; message content refers
+// to them by id with an attachment part, which the messages API turns into an authenticated
+// URL for the client and /api/chat back into bytes (images) or extracted text (documents)
+// for the model.
+
+export interface AttachmentPart {
+  type: 'attachment'
+  attachmentId: string
+  mediaType: string
+  filename?: string
+}
+
+const ATTACHMENT_URL = /^\/api\/attachments\/([\w-]{1,64})$/
+const DATA_URL = /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w-]+=[^;,]*)*;base64,([\s\S]*)$/
+
+export function getAttachmentUrl(attachmentId: string): string {
+  return `/api/attachments/${attachmentId}`
+}
+
+/**
+ * Attachments never change: browsers keep them privately for a year and revalidate with the ETag
+ */
+export function getAttachmentCacheHeaders(etag: string): Record<string, string> {
+  return {
+    'Cache-Control': 'private, max-age=31536000, immutable',
+    ETag: etag,
+  }
+}
+
+/**
+ * Id of the attachment an /api/attachments/<id> URL points to, else null
+ */
+export function parseAttachmentUrl(url: unknown): string | null {
+  if (typeof url !== 'string') return null
+  return ATTACHMENT_URL.exec(url)?.[1] ?? null
+}
+
+/**
+ * Bytes and type of a base64 data URL, else null
+ */
+export function parseDataUrl(url: unknown): { contentType: string; data: Buffer } | null {
+  if (typeof url !== 'string') return null
+  const match = DATA_URL.exec(url)
+  if (!match) return null
+  return { contentType: match[1].toLowerCase(), data: Buffer.from(match[2], 'base64') }
+}
+
+function hashAttachmentData(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Write a file to the attachment storage and record it
+ */
+export async function storeAttachment({
+  userId,
+  conversationId,
+  data,
+  contentType,
+  filename,
+  extraction,
+}: {
+  userId: string
+  conversationId: string | null
+  data: Buffer
+  contentType: string
+  filename?: string | null
+  extraction?: DocumentExtraction | null // Text of a document, when already extracted
+}): Promise<{ id: string; contentType: string; filename: string | null }> {
+  const id = crypto.randomUUID()
+  const storageKey = `${userId}/${id}`
+  const storage = getAttachmentStorage()
+  await storage.put(storageKey, data, contentType)
+
+  // Images get a preview for attachment tiles; without one the tile loads the image itself
+  let thumbnailKey: string | null = null
+  if (contentType.startsWith('image/')) {
+    try {
+      await storage.put(`${storageKey}-thumbnail`, await createThumbnail(data), 'image/webp')
+      thumbnailKey = `${storageKey}-thumbnail`
+    } catch (error) {
+      console.error('Failed to create attachment thumbnail:', error)
+    }
+  }
+
+  let attachment: { id: string; contentType: string; filename: string | null }
+  try {
+    attachment = await prisma.attachment.create({
+      data: {
+        id,
+        userId,
+        conversationId,
+        filename: filename || null,
+        contentType,
+        size: data.length,
+        storageKey,
+        thumbnailKey,
+        contentHash: hashAttachmentData(data),
+        extraction: extraction ?? undefined,
+      },
+      select: { id: true, contentType: true, filename: true },
+    })
+  } catch (error) {
+    // Don't leave objects nothing refers to
+    await deleteAttachmentFiles([{ storageKey, thumbnailKey }])
+    throw error
+  }
+
+  // Long documents are embedded now rather than on the first question about them
+  if (extraction && needsPassageSelection(extraction)) {
+    try {
+      await getAttachmentPassages(id, extraction, { userId, conversationId })
+    } catch (error) {
+      console.error('Failed to embed document passages:', error)
+    }
+  }
+
+  return attachment
+}
+
+/**
+ * The user's attachment with this id, else null
+ */
+export async function findAttachment(attachmentId: string, userId: string) {
+  return prisma.attachment.findFirst({
+    where: { id: attachmentId, userId },
+  })
+}
+
+/**
+ * Bytes of a recorded attachment, or null when the storage lost them
+ */
+export async function readAttachment(attachment: { storageKey: string }): Promise<Buffer | null> {
+  return getAttachmentStorage().get(attachment.storageKey)
+}
+
+/**
+ * Bytes of an attachment's thumbnail, or null when it has none
+ */
+export async function readAttachmentThumbnail(attachment: { thumbnailKey: string | null }): Promise<Buffer | null> {
+  if (!attachment.thumbnailKey) return null
+  return getAttachmentStorage().get(attachment.thumbnailKey)
+}
+
+/**
+ * Text of a document attachment, extracted on first use for documents stored without it
+ * (sent inline rather than uploaded)
+ * @returns null for images, and for files with no text to extract
+ */
+export async function getAttachmentExtraction(attachment: {
+  id: string
+  storageKey: string
+  contentType: string
+  filename: string | null
+  extraction: unknown
+}): Promise<DocumentExtraction | null> {
+  if (attachment.extraction) return attachment.extraction as DocumentExtraction
+  if (attachment.contentType.startsWith('image/')) return null
+
+  const data = await readAttachment(attachment)
+  if (!data) return null
+  const { data: extraction } = await extractDocument(data, {
+    mediaType: attachment.contentType,
+    filename: attachment.filename,
+  })
+  if (!extraction) return null
+
+  await prisma.attachment.update({
+    where: { id: attachment.id },
+    data: { extraction },
+  })
+  return extraction
+}
+
+/**
+ * Embedded passages of a long document attachment: stored ones when they were embedded with
+ * the current embedding model, else embedded now (counted as the user's usage) and stored
+ * @returns null for documents short enough to give the model whole
+ */
+export async function getAttachmentPassages(
+  attachmentId: string,
+  extraction: DocumentExtraction,
+  usage: UsageContext
+): Promise<DocumentPassage[] | null> {
+  if (!needsPassageSelection(extraction)) return null
+
+  const model = getEmbeddingProvider().model
+  const stored = await prisma.attachmentPassage.findMany({
+    where: { attachmentId, model },
+    orderBy: { position: 'asc' },
+    select: { label: true, content: true, embedding: true },
+  })
+  if (stored.length > 0) {
+    return stored.map((passage) => ({ label: passage.label, text: passage.content, embedding: passage.embedding }))
+  }
+
+  const { passages } = await embedDocumentPassages(extraction, usage)
+  await prisma.$transaction([
+    prisma.attachmentPassage.deleteMany({ where: { attachmentId } }),
+    prisma.attachmentPassage.createMany({
+      data: passages.map((passage, position) => ({
+        attachmentId,
+        position,
+        label: passage.label,
+        content: passage.text,
+        embedding: passage.embedding,
+        model,
+      })),
+    }),
+  ])
+  return passages
+}
+
+/**
+ * Attachment part for a file of a user message: a data URL is stored as a new attachment,
+ * a URL of one of the user's attachments (an edited message sends them back) is reused.
+ * New attachments get the type their content was checked as, never the declared one.
+ * @returns null for other URLs, and for files that are neither an image nor a document we read
+ */
+export async function toAttachmentPart(
+  url: unknown,
+  {
+    userId,
+    conversationId,
+    mediaType,
+    filename,
+  }: { userId: string; conversationId: string; mediaType?: string; filename?: string }
+): Promise<AttachmentPart | null> {
+  const existingId = parseAttachmentUrl(url)
+  if (existingId) {
+    const attachment = await findAttachment(existingId, userId)
+    if (!attachment) return null
+    return {
+      type: 'attachment',
+      attachmentId: attachment.id,
+      mediaType: attachment.contentType,
+      ...(attachment.filename ? { filename: attachment.filename } : {}),
+    }
+  }
+
+  const file = parseDataUrl(url)
+  if (!file) return null
+
+  // Images were normalized to their real format; other files passed checkMessageDocuments
+  const declaredType = mediaType || file.contentType
+  let contentType: string | null
+  if (declaredType.startsWith('image/')) {
+    const imageType = sniffMimeType(file.data)
+    contentType = imageType?.startsWith('image/') ? imageType : null
+  } else {
+    const kind = getDocumentKind(file.data, { mediaType: declaredType, filename })
+    contentType = kind ? DOCUMENT_CONTENT_TYPES[kind] : null
+  }
+  if (!contentType) return null
+
+  const attachment = await storeAttachment({
+    userId,
+    conversationId,
+    data: file.data,
+    contentType,
+    filename,
+  })
+  return {
+    type: 'attachment',
+    attachmentId: attachment.id,
+    mediaType: attachment.contentType,
+    ...(attachment.filename ? { filename: attachment.filename } : {}),
+  }
+}
+
+/**
+ * Whether a message the client sent has documents inline, as data URLs
+ */
+export function hasInlineDocuments(parts: any[]): boolean {
+  return parts.some(
+    (part) => part?.type === 'file' && !String(part.mediaType).startsWith('image/') && parseDataUrl(part.url) !== null
+  )
+}
+
+/**
+ * Check the files of a message the client sent, once its images are normalized: files sent
+ * inline must be documents we can read, within the size limit. Uploaded attachments were
+ * checked on upload.
+ * @returns An error message for the user, or null
+ */
+export function checkMessageDocuments(parts: any[]): string | null {
+  for (const part of parts) {
+    if (part?.type !== 'file' || String(part.mediaType).startsWith('image/')) continue
+    if (parseAttachmentUrl(part.url)) continue
+
+    // Web URLs are passed on to the model as they are
+    const file = parseDataUrl(part.url)
+    if (!file && /^https?:\/\//.test(part.url)) continue
+    if (!file) return `"${part.filename ?? 'Attachment'}" is not a valid data URL`
+    const error = checkDocument(file.data, { mediaType: part.mediaType, filename: part.filename })
+    if (error) return error
+  }
+  return null
+}
+
+/**
+ * Prepare the files of model messages for the model. Images sent back as attachment URLs
+ * (history) become their stored bytes, since the model can't reach authenticated URLs.
+ * Documents, stored or inline, become their extracted text, cut to the passages closest to
+ * the question when too long; stored documents reuse the passages embedded when they were
+ * stored, and so do inline documents the user already sent (the client sends them inline
+ * until the page is reloaded). Parts whose attachment is gone or belongs to someone else are
+ * dropped.
+ */
+export async function resolveMessageFiles<T extends { content?: unknown }>(
+  messages: T[],
+  { userId, conversationId, question }: { userId: string; conversationId: string | null; question: string }
+): Promise<T[]> {
+  const usage: UsageContext = { userId, conversationId }
+
+  // The question is embedded once, and only when a long document needs it
+  let questionEmbedding: Promise<number[] | null> | undefined
+  const embedQuestion = () =>
+    (questionEmbedding ??= question.trim()
+      ? getEmbeddingProvider()
+          .embed([question], usage)
+          .then(([embedding]) => embedding)
+      : Promise.resolve(null))
+
+  const toDocumentPart = async (
+    extraction: DocumentExtraction,
+    filename: string | null | undefined,
+    getPassages: () => Promise<DocumentPassage[] | null>
+  ) => {
+    let ranking: { passages: DocumentPassage[] | null; questionEmbedding: number[] | null } = {
+      passages: null,
+      questionEmbedding: null,
+    }
+    if (needsPassageSelection(extraction)) {
+      try {
+        const [passages, questionEmbedding] = await Promise.all([getPassages(), embedQuestion()])
+        ranking = { passages, questionEmbedding }
+      } catch (error) {
+        // The first passages are given instead
+        console.error('Failed to rank document passages:', error)
+      }
+    }
+    return {
+      type: 'text' as const,
+      text: formatDocumentForModel(extraction, { filename, ...ranking }),
+    }
+  }
+
+  const toStoredDocumentPart = async (attachment: Parameters<typeof getAttachmentExtraction>[0]) => {
+    const extraction = await getAttachmentExtraction(attachment)
+    return extraction
+      ? toDocumentPart(extraction, attachment.filename, () => getAttachmentPassages(attachment.id, extraction, usage))
+      : null
+  }
+
+  return Promise.all(
+    messages.map(async (message) => {
+      if (!Array.isArray(message.content)) return message
+
+      const content = await Promise.all(
+        message.content.map(async (part: any) => {
+          const url = part?.type === 'file' ? part.data : part?.type === 'image' ? part.image : null
+          const attachmentId = parseAttachmentUrl(url instanceof URL ? url.pathname : url)
+
+          if (!attachmentId) {
+            // Documents sent inline, as data URLs
+            const file = part?.type === 'file' && !String(part.mediaType).startsWith('image/') ? parseDataUrl(url) : null
+            if (!file) return part
+            const stored = await prisma.attachment.findFirst({
+              where: { userId, contentHash: hashAttachmentData(file.data) },
+              orderBy: { createdAt: 'asc' },
+            })
+            if (stored && !stored.contentType.startsWith('image/')) return toStoredDocumentPart(stored)
+
+            const { data: extraction } = await extractDocument(file.data, {
+              mediaType: part.mediaType,
+              filename: part.filename,
+            })
+            return extraction
+              ? toDocumentPart(extraction, part.filename, async () =>
+                  (await embedDocumentPassages(extraction, usage)).passages
+                )
+              : null
+          }
+
+          const attachment = await findAttachment(attachmentId, userId)
+          if (!attachment) return null
+          if (!attachment.contentType.startsWith('image/')) return toStoredDocumentPart(attachment)
+
+          const data = await readAttachment(attachment)
+          if (!data) return null
+          return part.type === 'file'
+            ? { ...part, data, mediaType: attachment.contentType }
+            : { ...part, image: data, mediaType: attachment.contentType }
+        })
+      )
+      return { ...message, content: content.filter((part) => part !== null) }
+    })
+  )
+}
+
+/**
+ * Remove the stored files of attachments whose records are being deleted; failures are
+ * logged, the records go anyway
+ */
+export async function deleteAttachmentFiles(
+  attachments: { storageKey: string; thumbnailKey: string | null }[]
+): Promise<void> {
+  const storage = getAttachmentStorage()
+  const keys = attachments.flatMap((attachment) =>
+    attachment.thumbnailKey ? [attachment.storageKey, attachment.thumbnailKey] : [attachment.storageKey]
+  )
+  await Promise.all(
+    keys.map((key) =>
+      storage.delete(key).catch((error) => {
+        console.error('Failed to delete attachment file:', error)
+      })
+    )
+  )
+}
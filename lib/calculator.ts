@@ -0,0 +1,265 @@
+import vm from 'vm'
+import { tool } from 'ai'
+import { all, create, type MathJsInstance, type Unit } from 'mathjs'
+import { z } from 'zod'
+import type { ChatToolFactory } from './chat-tools'
+
+export const DEFAULT_SIGNIFICANT_FIGURES = 4
+
+// Expressions come from the model: bound their length, the matrices they build and their run time
+export const MAX_EXPRESSION_LENGTH = 1000
+const MAX_MATRIX_ELEMENTS = 100_000
+const CALCULATION_TIMEOUT_MS = 1000
+
+export interface CalculationResult {
+  expression: string
+  result: string // Formatted to the requested significant figures, with its unit
+  value: number | null // Full-precision value in `unit`
+  unit: string | null // Unit of the formatted result, null for dimensionless results
+  si: string | null // Same quantity in SI base units, for dimensional checks
+  significantFigures: number
+}
+
+interface RestrictedMath {
+  mathjs: MathJsInstance
+  evaluate: MathJsInstance['evaluate']
+}
+
+let restrictedMath: RestrictedMath | null = null
+
+/**
+ * Number of elements the functions that build matrices from sizes or other matrices would
+ * allocate, computed from their arguments before they run
+ */
+function getAllocationCounters(mathjs: MathJsInstance): Record<string, (args: unknown[]) => number> {
+  const isCollection = (value: unknown) => ['Array', 'DenseMatrix', 'SparseMatrix'].includes(mathjs.typeOf(value))
+  const count = (value: unknown) => (isCollection(value) ? mathjs.count(value as number[]) : 1)
+  // Sizes given as numbers, or as one array such as [2, 3]
+  const product = (sizes: unknown[]) =>
+    sizes.reduce<number>((total, size) => total * Math.max(0, Number(size) || 0), 1)
+  const sizeArguments = (args: unknown[]) =>
+    isCollection(args[0])
+      ? product(mathjs.flatten(args[0] as number[]).valueOf() as number[])
+      : product(args.filter((arg) => typeof arg === 'number' || mathjs.typeOf(arg) === 'BigNumber'))
+
+  return {
+    ones: sizeArguments,
+    zeros: sizeArguments,
+    // identity(n) is n x n
+    identity: (args) => {
+      const sizes = args.filter((arg) => typeof arg !== 'string')
+      return sizes.length === 1 && !isCollection(sizes[0]) ? sizeArguments([sizes[0], sizes[0]]) : sizeArguments(sizes)
+    },
+    random: (args) => (isCollection(args[0]) ? sizeArguments(args) : 1),
+    randomInt: (args) => (isCollection(args[0]) ? sizeArguments(args) : 1),
+    resize: (args) => sizeArguments(args.slice(1, 2)),
+    range: (args) => {
+      const [start, end, step = 1] =
+        typeof args[0] === 'string' ? args[0].split(':').map(Number) : args.slice(0, 3).map(Number)
+      return step === 0 ? Infinity : Math.floor(Math.abs((end - start) / step)) + 1
+    },
+    kron: (args) => count(args[0]) * count(args[1]),
+    concat: (args) => args.reduce<number>((total, arg) => total + count(arg), 0),
+    diag: (args) => (isCollection(args[0]) ? count(args[0]) ** 2 : 1),
+  }
+}
+
+/**
+ * A mathjs instance restricted to pure evaluation: expressions come from the model,
+ * so functions that can define or import code are disabled inside them, and those
+ * that build matrices refuse more than MAX_MATRIX_ELEMENTS elements.
+ * `evaluate` keeps a reference to the original function, which expressions can't reach.
+ */
+function getMath(): RestrictedMath {
+  if (restrictedMath) return restrictedMath
+
+  const instance = create(all)
+  const evaluate = instance.evaluate
+
+  // Reactive power is its own dimension, so it is neither shown as VA nor added to watts
+  instance.createUnit('var', { prefixes: 'short', baseName: 'reactive_power' })
+
+  // The typings don't index functions by name nor expose the expression transforms
+  type MathFunction = (...args: unknown[]) => unknown
+  const functions = instance as unknown as Record<string, MathFunction>
+  const transforms = (instance as unknown as { expression: { transform: Record<string, MathFunction | undefined> } })
+    .expression.transform
+
+  const limited: Record<string, MathFunction> = {}
+  for (const [name, countElements] of Object.entries(getAllocationCounters(instance))) {
+    const original = functions[name]
+    const transform = transforms[name]
+    const guard =
+      (fn: MathFunction): MathFunction =>
+      (...args: unknown[]) => {
+        if (!(countElements(args) <= MAX_MATRIX_ELEMENTS)) {
+          throw new Error(`${name}: matrices are limited to ${MAX_MATRIX_ELEMENTS.toLocaleString('en-US')} elements`)
+        }
+        return fn(...args)
+      }
+    // The expression parser uses the transform (one-based indexes, ranges with their end) when there is one
+    limited[name] = Object.assign(guard(original), transform ? { transform: guard(transform) } : {})
+  }
+  instance.import(limited, { override: true })
+
+  const disabled = () => {
+    throw new Error('Function is disabled')
+  }
+  instance.import(
+    {
+      import: disabled,
+      createUnit: disabled,
+      evaluate: disabled,
+      parse: disabled,
+      simplify: disabled,
+      derivative: disabled,
+      resolve: disabled,
+      reviver: disabled,
+    },
+    { override: true }
+  )
+
+  restrictedMath = { mathjs: instance, evaluate }
+  return restrictedMath
+}
+
+/**
+ * Reactive power is written var, kvar or Mvar whatever the case: mathjs' own VAR is
+ * defined as imaginary VA
+ */
+function normalizeUnits(expression: string): string {
+  return expression.replace(/\b([kM]?)var\b/gi, (_, prefix: string) =>
+    `${prefix.toLowerCase() === 'k' ? 'k' : prefix ? 'M' : ''}var`
+  )
+}
+
+function isUnit(value: unknown): value is Unit {
+  return getMath().mathjs.typeOf(value) === 'Unit'
+}
+
+/**
+ * Evaluate an expression with optional units, e.g. "400 V * sqrt(3) * 32 A * 0.85"
+ * @param expression - mathjs expression; units are checked, so "2 m + 3 s" fails
+ * @param targetUnit - Unit to express the result in, e.g. "kW"
+ * @param significantFigures - Precision of the formatted result
+ * @throws Error when the expression is invalid, too long or too slow, or the units don't match
+ */
+export function calculate(
+  expression: string,
+  targetUnit?: string,
+  significantFigures = DEFAULT_SIGNIFICANT_FIGURES
+): CalculationResult {
+  const { mathjs, evaluate } = getMath()
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`The expression is longer than ${MAX_EXPRESSION_LENGTH} characters`)
+  }
+
+  // The timeout stops the evaluation wherever it runs, mathjs functions included
+  let value: unknown
+  try {
+    value = vm.runInNewContext(
+      'evaluate(expression)',
+      { evaluate, expression: normalizeUnits(expression) },
+      { timeout: CALCULATION_TIMEOUT_MS }
+    )
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`The calculation took longer than ${CALCULATION_TIMEOUT_MS} ms`)
+    }
+    throw error
+  }
+
+  if (targetUnit) {
+    targetUnit = normalizeUnits(targetUnit)
+    if (!isUnit(value)) {
+      throw new Error(`The result is dimensionless and cannot be converted to ${targetUnit}`)
+    }
+    const target = mathjs.unit(targetUnit)
+    if (!value.equalBase(target)) {
+      throw new Error(
+        `Units do not match: the result is in ${value.toSI().formatUnits()}, ${targetUnit} is ${target.toSI().formatUnits()}`
+      )
+    }
+    value = value.to(targetUnit)
+  }
+
+  const format = (result: unknown) => mathjs.format(result, { precision: significantFigures })
+
+  if (isUnit(value)) {
+    // Formatting simplifies units (V A -> kW); report the value in the unit that is shown
+    const result = format(value)
+    const unit = result.slice(result.indexOf(' ') + 1)
+    let numeric: number | null = null
+    try {
+      numeric = value.toNumber(unit)
+    } catch {
+      // Compound units such as "(kg m^2) / s^3" can't always be parsed back
+    }
+    let si: string | null = null
+    try {
+      si = format(value.toSI())
+    } catch {
+      // Reactive power has no SI expression; var is its base unit
+      si = format(value.to('var'))
+    }
+    return {
+      expression,
+      result,
+      value: numeric,
+      unit,
+      si,
+      significantFigures,
+    }
+  }
+
+  const type = mathjs.typeOf(value)
+  if (['Array', 'DenseMatrix', 'SparseMatrix', 'Range'].includes(type)) {
+    throw new Error(
+      'Only single numbers or quantities can be returned: reduce the matrix (e.g. with sum, max or det) or pick one element'
+    )
+  }
+  if (type === 'ResultSet') {
+    throw new Error('Only single numbers or quantities can be returned: write one expression, without ";" or new lines')
+  }
+  if (typeof value !== 'number' && type !== 'BigNumber' && type !== 'Fraction') {
+    throw new Error(`Only numbers and quantities can be returned, not a ${type}`)
+  }
+
+  return {
+    expression,
+    result: format(value),
+    value: Number(value),
+    unit: null,
+    si: null,
+    significantFigures,
+  }
+}
+
+/**
+ * Chat tool exposing the calculator to the model
+ */
+export const createCalculatorTool: ChatToolFactory = () =>
+  tool({
+    description:
+      "Deterministic calculator with unit conversion and dimensional analysis. Use it for every numerical result and unit conversion instead of computing by hand, and quote its results in the answer. Units may be SI or imperial (V, A, W, kVA, kvar, ohm, Hz, kWh, hp, BTU, psi, bar, degC, degF, mm^2, in, ft, lbf...); write 'minute' rather than 'min'. Reactive power (var, kvar) is kept apart from W and VA: combine them without units, e.g. 'sqrt(40^2 + 30^2) kVA'. Each call returns one number or quantity: reduce matrices (sum, max, det...) and compute several results in separate calls. Examples: '230 V * 16 A * 0.9', '(400 V * sqrt(3) * 32 A * 0.85) to kW', '2.5 mm^2 to in^2'.",
+    inputSchema: z.object({
+      expression: z
+        .string()
+        .min(1)
+        .max(MAX_EXPRESSION_LENGTH)
+        .describe('Expression to evaluate, with units where relevant'),
+      targetUnit: z
+        .string()
+        .optional()
+        .describe('Unit to convert the result to, e.g. "kW"; must have the same dimension as the result'),
+      significantFigures: z
+        .number()
+        .int()
+        .min(1)
+        .max(15)
+        .optional()
+        .describe(`Significant figures of the formatted result (default ${DEFAULT_SIGNIFICANT_FIGURES})`),
+    }),
+    execute: async ({ expression, targetUnit, significantFigures }) =>
+      calculate(expression, targetUnit, significantFigures),
+  })
@@ -0,0 +1,49 @@
+import { stepCountIs, type Tool, type ToolSet } from 'ai'
+import { createCalculatorTool } from './calculator'
+
+/**
+ * Request context available to tools, e.g. to scope database lookups to the user
+ */
+export interface ChatToolContext {
+  userId: string
+  userRole: string
+  conversationId: string | null
+}
+
+/**
+ * Builds a tool for one chat request. Tools are defined with `tool()` from the AI SDK,
+ * with a zod `inputSchema` that types and validates the arguments the model sends.
+ */
+export type ChatToolFactory = (context: ChatToolContext) => Tool
+
+// Server-side tools offered to the model, keyed by the name the model calls them by.
+// Tools with a custom renderer are registered under the same name in components/assistant-ui/tool-renderers.tsx
+const toolFactories: Record<string, ChatToolFactory> = {
+  calculate: createCalculatorTool,
+}
+
+// Model calls plus tool round-trips allowed for one answer
+const DEFAULT_MAX_STEPS = 5
+
+/**
+ * Tools enabled for a chat request. CHAT_TOOLS restricts them to a comma-separated list
+ * of names ("none" disables tools); by default every registered tool is enabled.
+ */
+export function getChatTools(context: ChatToolContext): ToolSet {
+  const enabled = process.env.CHAT_TOOLS?.split(',').map((name) => name.trim()).filter(Boolean)
+
+  const tools: ToolSet = {}
+  for (const [name, createTool] of Object.entries(toolFactories)) {
+    if (enabled && !enabled.includes(name)) continue
+    tools[name] = createTool(context)
+  }
+  return tools
+}
+
+/**
+ * Stop condition for streamText: CHAT_MAX_STEPS caps the number of steps (default 5)
+ */
+export function getChatStopCondition() {
+  const maxSteps = Number(process.env.CHAT_MAX_STEPS)
+  return stepCountIs(Number.isInteger(maxSteps) && maxSteps > 0 ? maxSteps : DEFAULT_MAX_STEPS)
+}
@@ -0,0 +1,197 @@
+import { generateText } from 'ai'
+import { prisma } from './prisma'
+import { isModelId, resolveModel, type ModelId } from './llm-providers'
+import { resolveMessageTree } from './message-tree'
+import { getMessageText } from './model-routing'
+import { recordUsage } from './usage'
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation'
+
+const TITLE_MAX_LENGTH = 60
+const TITLE_TRANSCRIPT_LENGTH = 4000 // Characters of the conversation shown to the title model
+const TITLE_TIMEOUT_MS = 10_000 // A client waiting for the new title gets the old one after this
+
+// Title refreshes under way, by conversation, so the client can wait for the one following
+// an answer; per process, like the stream buffers
+const globalForTitles = globalThis as unknown as {
+  pendingTitles: Map<string, Promise<{ id: string; title: string } | null>> | undefined
+}
+
+function getPendingTitles() {
+  if (!globalForTitles.pendingTitles) globalForTitles.pendingTitles = new Map()
+  return globalForTitles.pendingTitles
+}
+
+/**
+ * TITLE_MODEL picks the model writing titles (default openai:gpt-4o-mini, keep it cheap);
+ * TITLE_REFRESH_MESSAGES re-titles a conversation every N messages (default 10, 0 never)
+ */
+function getTitleSettings(): { modelId: ModelId; refreshMessages: number } {
+  const modelId = process.env.TITLE_MODEL
+  const refreshMessages = Number(process.env.TITLE_REFRESH_MESSAGES)
+  return {
+    modelId: isModelId(modelId) ? modelId : 'openai:gpt-4o-mini',
+    refreshMessages: Number.isInteger(refreshMessages) && refreshMessages >= 0 ? refreshMessages : 10,
+  }
+}
+
+/**
+ * Shorten a title to the limit at a word boundary
+ */
+export function truncateTitle(text: string, maxLength = TITLE_MAX_LENGTH): string {
+  const title = text.replace(/\s+/g, ' ').trim()
+  if (title.length <= maxLength) return title
+
+  const cut = title.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '')}…`
+}
+
+/**
+ * Title of a conversation until the model titles it: its first question, or the default
+ * when it has no text (e.g. only an image)
+ */
+export function getInitialTitle(text: string): string {
+  return truncateTitle(text, 50) || DEFAULT_CONVERSATION_TITLE
+}
+
+/**
+ * Clean up the model's answer: first line, without quotes, markdown or a final period
+ */
+function sanitizeTitle(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? ''
+  return truncateTitle(
+    firstLine
+      .replace(/^(titre|title)\s*:\s*/i, '')
+      .replace(/[*_#`]/g, '')
+      .replace(/^["'«“\s]+|["'»”\s]+$/g, '')
+      .replace(/\.$/, '')
+  )
+}
+
+/**
+ * Text of a stored message: plain text, or the text parts of multimodal JSON content
+ */
+function getStoredMessageText(content: string): string {
+  if (content.startsWith('[')) {
+    try {
+      return getMessageText({ content: JSON.parse(content) })
+    } catch {
+      // Plain text that happens to start with a bracket
+    }
+  }
+  return content
+}
+
+/**
+ * Ask the title model for a title of the conversation's active branch and store it
+ * @returns The new title, or null when the conversation has no text to title
+ * @throws When the model call fails
+ */
+export async function generateConversationTitle(
+  conversationId: string,
+  userId: string
+): Promise<{ id: string; title: string } | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: {
+      activeMessageId: true,
+      updatedAt: true,
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, parentId: true, role: true, content: true },
+      },
+    },
+  })
+  if (!conversation) return null
+
+  // Walk the active branch back from its last message
+  const { messages, headId } = resolveMessageTree(conversation.messages, conversation.activeMessageId)
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const branch: typeof messages = []
+  for (let message = headId ? byId.get(headId) : undefined; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+    branch.unshift(message)
+  }
+
+  const transcript = branch
+    .map((message) => `${message.role === 'user' ? 'Question' : 'Réponse'} : ${getStoredMessageText(message.content).trim()}`)
+    .join('\n\n')
+    .slice(0, TITLE_TRANSCRIPT_LENGTH)
+  if (!branch.some((message) => getStoredMessageText(message.content).trim())) return null
+
+  const { modelId } = getTitleSettings()
+  const startedAt = Date.now()
+  const { text, totalUsage } = await generateText({
+    model: await resolveModel(modelId),
+    system:
+      "Tu donnes un titre à une conversation technique. Réponds uniquement par le titre : 3 à 8 mots, dans la langue de la conversation, sans guillemets ni point final, centré sur le sujet technique (équipement, norme, calcul).",
+    prompt: transcript,
+    abortSignal: AbortSignal.timeout(TITLE_TIMEOUT_MS),
+  })
+  await recordUsage({ userId, conversationId, kind: 'title', modelId, usage: totalUsage, startedAt })
+
+  const title = sanitizeTitle(text)
+  if (!title) return null
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: {
+      title,
+      titleMessageCount: conversation.messages.length,
+      // Titling doesn't move the conversation up the list
+      updatedAt: conversation.updatedAt,
+    },
+  })
+  return { id: conversationId, title }
+}
+
+/**
+ * Title a conversation after its first exchange, then again every TITLE_REFRESH_MESSAGES
+ * messages as its topic drifts. Failures are logged, never thrown. Until it settles,
+ * waitForConversationTitle waits for it.
+ * @returns The new title, or null when none was due or it failed
+ */
+export function refreshConversationTitle(
+  conversationId: string,
+  userId: string
+): Promise<{ id: string; title: string } | null> {
+  const pendingTitles = getPendingTitles()
+  const update = refreshTitleIfDue(conversationId, userId).finally(() => {
+    if (pendingTitles.get(conversationId) === update) pendingTitles.delete(conversationId)
+  })
+  pendingTitles.set(conversationId, update)
+  return update
+}
+
+/**
+ * Wait for the title refresh under way for a conversation, if any
+ */
+export async function waitForConversationTitle(conversationId: string): Promise<void> {
+  await getPendingTitles().get(conversationId)
+}
+
+async function refreshTitleIfDue(
+  conversationId: string,
+  userId: string
+): Promise<{ id: string; title: string } | null> {
+  try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { titleMessageCount: true, _count: { select: { messages: true } } },
+    })
+    if (!conversation) return null
+
+    const { refreshMessages } = getTitleSettings()
+    const messageCount = conversation._count.messages
+    const due =
+      conversation.titleMessageCount === 0
+        ? messageCount >= 2
+        : refreshMessages > 0 && messageCount - conversation.titleMessageCount >= refreshMessages
+    if (!due) return null
+
+    return await generateConversationTitle(conversationId, userId)
+  } catch (error) {
+    console.error('Failed to generate conversation title:', error)
+    return null
+  }
+}
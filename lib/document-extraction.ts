@@ -0,0 +1,479 @@
+import zlib from 'zlib'
+import ExcelJS from 'exceljs'
+import JSZip from 'jszip'
+import mammoth from 'mammoth'
+import { extractText } from 'unpdf'
+import { cosineSimilarity } from './embeddings'
+import { chunkText, embedChunks } from './knowledge-base'
+import type { UsageContext } from './usage'
+
+// Documents sent with messages (PDF, Word, Excel, CSV) reach the model as text: it is
+// extracted once, page by page or sheet by sheet, stored with the attachment and injected
+// into the message in place of the file. Large documents are cut to the passages closest
+// to the question.
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'csv'
+
+export type DocumentSection = {
+  label: string // "Page 3", "Feuille Budget"...
+  text: string
+}
+
+// Passage of a long document with its embedding
+export type DocumentPassage = DocumentSection & { embedding: number[] }
+
+// A type rather than an interface, so it can be stored as JSON
+export type DocumentExtraction = {
+  kind: DocumentKind
+  pageCount: number | null // Pages of PDFs, and of Word documents when the file records them
+  sheets: string[] | null // Sheet names of workbooks
+  characters: number
+  truncated: boolean // Rows or text beyond the extraction limits were left out
+  preview: string // Start of the text, for the attachment tile
+  sections: DocumentSection[]
+}
+
+export const DOCUMENT_CONTENT_TYPES: Record<DocumentKind, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+}
+
+// Sections as read from a file, before the extraction limits apply
+type RawExtraction = Omit<DocumentExtraction, 'characters' | 'truncated' | 'preview'> & { rowsLeftOut?: boolean }
+
+const MAX_EXTRACTED_CHARACTERS = 500_000 // Kept per document; beyond, the text is cut
+const MAX_SHEET_ROWS = 5_000 // Per sheet or CSV file
+const PREVIEW_LENGTH = 400
+const PASSAGE_SIZE = 1500 // Characters per passage when a document is cut to relevant passages
+const PASSAGE_OVERLAP = 150
+const MAX_ZIP_ENTRIES = 10_000 // Files in a Word or Excel archive
+
+/**
+ * Document limits: DOCUMENT_MAX_BYTES (default 20 MB) bounds uploads,
+ * DOCUMENT_MAX_UNCOMPRESSED_BYTES (default 100 MB) what Word and Excel files (ZIP archives)
+ * expand to, and DOCUMENT_CONTEXT_CHARACTERS (default 40000) the text of one document given
+ * to the model
+ */
+export function getDocumentLimits(): { maxBytes: number; maxUncompressedBytes: number; contextCharacters: number } {
+  const readLimit = (name: string, fallback: number) => {
+    const value = Number(process.env[name])
+    if (process.env[name] && !(Number.isInteger(value) && value > 0)) {
+      console.warn(`Ignoring invalid ${name}: ${process.env[name]}`)
+    }
+    return Number.isInteger(value) && value > 0 ? value : fallback
+  }
+  return {
+    maxBytes: readLimit('DOCUMENT_MAX_BYTES', 20 * 1024 * 1024),
+    maxUncompressedBytes: readLimit('DOCUMENT_MAX_UNCOMPRESSED_BYTES', 100 * 1024 * 1024),
+    contextCharacters: readLimit('DOCUMENT_CONTEXT_CHARACTERS', 40_000),
+  }
+}
+
+/**
+ * Kind of a document from its first bytes, with the declared type and file name telling
+ * Office formats (ZIP archives) and CSV (plain text) apart
+ * @returns null for other files
+ */
+export function getDocumentKind(
+  data: Buffer,
+  { mediaType, filename }: { mediaType?: string | null; filename?: string | null }
+): DocumentKind | null {
+  const name = (filename ?? '').toLowerCase()
+  const type = (mediaType ?? '').toLowerCase()
+
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf'
+
+  // Office files are ZIP archives; their part names are stored uncompressed in the headers
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) {
+    if (data.includes('word/document.xml')) return 'docx'
+    if (data.includes('xl/workbook.xml')) return 'xlsx'
+    if (type === DOCUMENT_CONTENT_TYPES.docx || name.endsWith('.docx')) return 'docx'
+    if (type === DOCUMENT_CONTENT_TYPES.xlsx || name.endsWith('.xlsx')) return 'xlsx'
+    return null
+  }
+
+  const isCsv = type === 'text/csv' || type === 'application/csv' || name.endsWith('.csv')
+  if (isCsv && !data.subarray(0, 8192).includes(0)) return 'csv'
+  return null
+}
+
+/**
+ * Total size the files of a ZIP archive expand to, from its central directory. Every entry is
+ * also inflated with its declared size as the output limit (and the output dropped), so an
+ * archive lying about its sizes fails here rather than in the parsers, which unzip it whole.
+ * Stops as soon as the archive is over the limits.
+ * @returns null for archives that can't be read, or ZIP64 ones (Office files never need it)
+ */
+function getZipUncompressedSize(data: Buffer, maxBytes: number): { bytes: number; entries: number } | null {
+  // End of central directory record: signature, then fields; a comment of up to 64 KB may follow
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) return null
+
+  const entries = data.readUInt16LE(end + 10)
+  let position = data.readUInt32LE(end + 16)
+  if (entries === 0xffff || position === 0xffffffff) return null
+
+  let bytes = 0
+  if (entries > MAX_ZIP_ENTRIES) return { bytes, entries }
+  for (let entry = 0; entry < entries; entry++) {
+    if (position + 46 > data.length || data.readUInt32LE(position) !== 0x02014b50) return null
+    const method = data.readUInt16LE(position + 10)
+    const compressedSize = data.readUInt32LE(position + 20)
+    const uncompressedSize = data.readUInt32LE(position + 24)
+    const localHeader = data.readUInt32LE(position + 42)
+    if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff || localHeader === 0xffffffff) return null
+    bytes += uncompressedSize
+    if (bytes > maxBytes) return { bytes, entries }
+
+    // Local file header: 30 bytes, then name and extra field, then the data
+    if (localHeader + 30 > data.length || data.readUInt32LE(localHeader) !== 0x04034b50) return null
+    const start = localHeader + 30 + data.readUInt16LE(localHeader + 26) + data.readUInt16LE(localHeader + 28)
+    if (start + compressedSize > data.length) return null
+    if (method === 8 && compressedSize > 0) {
+      try {
+        zlib.inflateRawSync(data.subarray(start, start + compressedSize), {
+          maxOutputLength: Math.max(1, uncompressedSize),
+        })
+      } catch {
+        return null
+      }
+    } else if (method === 0 && compressedSize !== uncompressedSize) {
+      return null
+    }
+
+    position += 46 + data.readUInt16LE(position + 28) + data.readUInt16LE(position + 30) + data.readUInt16LE(position + 32)
+  }
+
+  return { bytes, entries }
+}
+
+function toLines(rows: string[][]): string {
+  return rows.map((cells) => cells.join(' ; ').trimEnd()).join('\n')
+}
+
+function readCsvRows(text: string): string[][] {
+  const firstLine = text.split('\n', 1)[0]
+  // French exports separate with semicolons, since the comma is the decimal separator
+  const separator = [';', ',', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n') {
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else if (char !== '\r') {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell.trim()])
+  return rows.filter((cells) => cells.some(Boolean))
+}
+
+async function extractPdf(data: Buffer): Promise<RawExtraction> {
+  const { totalPages, text } = await extractText(new Uint8Array(data), { mergePages: false })
+  return {
+    kind: 'pdf',
+    pageCount: totalPages,
+    sheets: null,
+    sections: text.map((pageText, index) => ({ label: `Page ${index + 1}`, text: pageText.trim() })),
+  }
+}
+
+async function extractDocx(data: Buffer): Promise<RawExtraction> {
+  const { value } = await mammoth.extractRawText({ buffer: data })
+  // Word records the page count of the last save in the document properties
+  const properties = await (await JSZip.loadAsync(data)).file('docProps/app.xml')?.async('string')
+  const pages = Number(properties?.match(/<Pages>(\d+)<\/Pages>/)?.[1])
+  return {
+    kind: 'docx',
+    pageCount: pages > 0 ? pages : null,
+    sheets: null,
+    sections: [{ label: 'Document', text: value.replace(/\n{3,}/g, '\n\n').trim() }],
+  }
+}
+
+async function extractXlsx(data: Buffer): Promise<RawExtraction> {
+  const workbook = new ExcelJS.Workbook()
+  // ExcelJS types its input as an ArrayBuffer; a copy gives one of the exact size
+  await workbook.xlsx.load(new Uint8Array(data).buffer)
+
+  let rowsLeftOut = false
+  const sections = workbook.worksheets.map((worksheet) => {
+    const rows: string[][] = []
+    worksheet.eachRow({ includeEmpty: false }, (row) => {
+      if (rows.length >= MAX_SHEET_ROWS) {
+        rowsLeftOut = true
+        return
+      }
+      const cells: string[] = []
+      row.eachCell({ includeEmpty: true }, (cell) => {
+        cells.push(cell.text.replace(/\s+/g, ' ').trim())
+      })
+      rows.push(cells)
+    })
+    return { label: `Feuille ${worksheet.name}`, text: toLines(rows) }
+  })
+
+  return {
+    kind: 'xlsx',
+    pageCount: null,
+    sheets: workbook.worksheets.map((worksheet) => worksheet.name),
+    sections,
+    rowsLeftOut,
+  }
+}
+
+function extractCsv(data: Buffer): RawExtraction {
+  const rows = readCsvRows(data.toString('utf8').replace(/^\uFEFF/, ''))
+  return {
+    kind: 'csv',
+    pageCount: null,
+    sheets: null,
+    sections: [{ label: 'CSV', text: toLines(rows.slice(0, MAX_SHEET_ROWS)) }],
+    rowsLeftOut: rows.length > MAX_SHEET_ROWS,
+  }
+}
+
+/**
+ * Check that a file is a document we can read, within the size limit
+ * @returns An error message for the user, or null
+ */
+export function checkDocument(
+  data: Buffer,
+  { mediaType, filename }: { mediaType?: string | null; filename?: string | null }
+): string | null {
+  const label = filename ? `"${filename}"` : 'The file'
+  const { maxBytes, maxUncompressedBytes } = getDocumentLimits()
+  if (data.length > maxBytes) {
+    return `${label} is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`
+  }
+  const kind = getDocumentKind(data, { mediaType, filename })
+  if (!kind) {
+    return `${label} is not a supported document; send PDF, Word (.docx), Excel (.xlsx) or CSV`
+  }
+
+  // Word and Excel files are unzipped in memory: refuse archives that expand too much
+  if (kind === 'docx' || kind === 'xlsx') {
+    const archive = getZipUncompressedSize(data, maxUncompressedBytes)
+    if (!archive) return `${label} could not be read`
+    if (archive.entries > MAX_ZIP_ENTRIES || archive.bytes > maxUncompressedBytes) {
+      return `${label} expands to more than ${Math.round(maxUncompressedBytes / (1024 * 1024))} MB of content`
+    }
+  }
+  return null
+}
+
+/**
+ * Extract the text of a PDF, Word, Excel or CSV file, by page or sheet
+ * @returns The extraction, or an error message for the user
+ */
+export async function extractDocument(
+  data: Buffer,
+  { mediaType, filename }: { mediaType?: string | null; filename?: string | null }
+): Promise<{ data?: DocumentExtraction; error?: string }> {
+  const label = filename ? `"${filename}"` : 'The file'
+  const checkError = checkDocument(data, { mediaType, filename })
+  if (checkError) return { error: checkError }
+  const kind = getDocumentKind(data, { mediaType, filename })!
+
+  let extracted: RawExtraction
+  try {
+    extracted =
+      kind === 'pdf'
+        ? await extractPdf(data)
+        : kind === 'docx'
+          ? await extractDocx(data)
+          : kind === 'xlsx'
+            ? await extractXlsx(data)
+            : extractCsv(data)
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      return { error: `${label} is password-protected` }
+    }
+    console.error('Failed to extract document text:', error)
+    return { error: `${label} could not be read` }
+  }
+
+  // Keep sections whole up to the storage limit
+  let characters = 0
+  let truncated = Boolean(extracted.rowsLeftOut)
+  const sections: DocumentSection[] = []
+  for (const section of extracted.sections) {
+    if (!section.text) continue
+    const room = MAX_EXTRACTED_CHARACTERS - characters
+    if (room <= 0) {
+      truncated = true
+      break
+    }
+    const text = section.text.length > room ? section.text.slice(0, room) : section.text
+    truncated ||= text.length < section.text.length
+    sections.push({ label: section.label, text })
+    characters += text.length
+  }
+
+  if (characters === 0) {
+    return {
+      error:
+        kind === 'pdf'
+          ? `${label} has no text layer (scanned pages need OCR first)`
+          : `${label} contains no text`,
+    }
+  }
+
+  return {
+    data: {
+      kind,
+      pageCount: extracted.pageCount,
+      sheets: extracted.sheets,
+      characters,
+      truncated,
+      preview: sections.map((section) => section.text).join('\n').slice(0, PREVIEW_LENGTH),
+      sections,
+    },
+  }
+}
+
+/**
+ * Whether a document is too long to give the model whole, so its passages are embedded
+ */
+export function needsPassageSelection(extraction: DocumentExtraction): boolean {
+  return extraction.characters > getDocumentLimits().contextCharacters
+}
+
+/**
+ * Split a long document into overlapping passages and embed them, once per document; with a
+ * usage context, the embedding calls count as the user's usage
+ */
+export async function embedDocumentPassages(
+  extraction: DocumentExtraction,
+  usage?: UsageContext
+): Promise<{ model: string; passages: DocumentPassage[] }> {
+  const passages = splitPassages(extraction)
+  const { model, embeddings } = await embedChunks(
+    passages.map((passage) => passage.text),
+    usage
+  )
+  return {
+    model,
+    passages: passages.map((passage, index) => ({ ...passage, embedding: embeddings[index] })),
+  }
+}
+
+function splitPassages(extraction: DocumentExtraction): DocumentSection[] {
+  return extraction.sections.flatMap((section) =>
+    chunkText(section.text, PASSAGE_SIZE, PASSAGE_OVERLAP).map((text) => ({ label: section.label, text }))
+  )
+}
+
+/**
+ * Sections of a document that fit the model's budget: the whole text when it fits, else the
+ * passages closest to the question, in document order. Without embedded passages or a
+ * question embedding, the first passages are kept.
+ */
+function selectPassages(
+  extraction: DocumentExtraction,
+  { passages, questionEmbedding }: { passages?: DocumentPassage[] | null; questionEmbedding?: number[] | null },
+  budget: number
+): { sections: DocumentSection[]; complete: boolean } {
+  if (extraction.characters <= budget) {
+    return { sections: extraction.sections, complete: true }
+  }
+
+  const candidates: (DocumentSection & { embedding?: number[] })[] = passages ?? splitPassages(extraction)
+  let order = candidates.map((_, index) => index)
+  if (questionEmbedding && passages) {
+    order = order.sort(
+      (a, b) =>
+        cosineSimilarity(questionEmbedding, passages[b].embedding) -
+        cosineSimilarity(questionEmbedding, passages[a].embedding)
+    )
+  }
+
+  const kept = new Set<number>()
+  let characters = 0
+  for (const index of order) {
+    if (characters + candidates[index].text.length > budget) continue
+    kept.add(index)
+    characters += candidates[index].text.length
+  }
+
+  return {
+    sections: candidates
+      .filter((_, index) => kept.has(index))
+      .map((passage) => ({ label: passage.label, text: passage.text })),
+    complete: false,
+  }
+}
+
+/**
+ * Text given to the model in place of a document: a header with what the document is and,
+ * when it had to be cut, which parts are missing, then its sections labelled by page or sheet
+ * @param passages - Embedded passages of a long document, ranked against questionEmbedding
+ */
+export function formatDocumentForModel(
+  extraction: DocumentExtraction,
+  {
+    filename,
+    passages,
+    questionEmbedding,
+  }: { filename?: string | null; passages?: DocumentPassage[] | null; questionEmbedding?: number[] | null }
+): string {
+  const { contextCharacters } = getDocumentLimits()
+  const { sections, complete } = selectPassages(extraction, { passages, questionEmbedding }, contextCharacters)
+
+  const details = [
+    extraction.pageCount !== null ? `${extraction.pageCount} pages` : null,
+    extraction.sheets ? `feuilles : ${extraction.sheets.join(', ')}` : null,
+  ].filter(Boolean)
+  const notes = [
+    !complete
+      ? `Document trop long : seuls les passages les plus pertinents pour la question sont inclus (${sections.length} extraits).`
+      : null,
+    extraction.truncated ? 'Une partie du document (lignes ou texte au-delà des limites) n’a pas été extraite.' : null,
+  ].filter(Boolean)
+
+  return [
+    `[Document joint : ${filename || extraction.kind.toUpperCase()}${details.length > 0 ? ` (${details.join(', ')})` : ''}]`,
+    ...notes,
+    ...sections.map((section) => `--- ${section.label} ---\n${section.text}`),
+    '[Fin du document]',
+  ].join('\n\n')
+}
+
+/**
+ * What the client shows on an attachment tile: everything but the text itself
+ */
+export function toExtractionSummary(extraction: DocumentExtraction) {
+  const { sections, ...summary } = extraction
+  return summary
+}
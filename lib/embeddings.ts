@@ -0,0 +1,113 @@
+import { embedMany } from 'ai'
+import crypto from 'crypto'
+import { getModelRegistry, isModelId, type ModelId } from './llm-providers'
+import { recordUsage, type UsageContext } from './usage'
+
+// Local stand-in used when no embedding model is configured
+export const LOCAL_EMBEDDING_MODEL = 'local:hashing'
+
+const LOCAL_DIMENSIONS = 512
+
+export interface EmbeddingProvider {
+  model: string // Stored with the chunks; vectors from different models are never compared
+  // With a usage context, the call is recorded as usage of kind 'embedding'
+  embed(values: string[], usage?: UsageContext): Promise<number[][]>
+}
+
+/**
+ * Scale a vector to unit length so cosine similarity is a plain dot product
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0))
+  return norm > 0 ? vector.map((x) => x / norm) : vector
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents so 'securite' matches 'sécurité'
+    .split(/[^a-z0-9.]+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter((token) => token.length > 1)
+}
+
+/**
+ * Deterministic feature-hashing embedding: words and word pairs are hashed into a fixed
+ * number of buckets. It only captures shared vocabulary, which is enough to work offline
+ * and in development, but a real embedding model retrieves far better.
+ */
+function hashingEmbedding(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0)
+  const tokens = tokenize(text)
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)]
+
+  for (const feature of features) {
+    const hash = crypto.createHash('md5').update(feature).digest()
+    const bucket = hash.readUInt32BE(0) % LOCAL_DIMENSIONS
+    // The sign bit spreads collisions around zero instead of accumulating them
+    vector[bucket] += hash[4] & 1 ? 1 : -1
+  }
+
+  return normalize(vector)
+}
+
+const localProvider: EmbeddingProvider = {
+  model: LOCAL_EMBEDDING_MODEL,
+  embed: async (values) => values.map(hashingEmbedding),
+}
+
+/**
+ * Embedding model served by one of the registered LLM providers
+ */
+function createRegistryProvider(modelId: ModelId): EmbeddingProvider {
+  return {
+    model: modelId,
+    embed: async (values, usageContext) => {
+      const startedAt = Date.now()
+      const registry = await getModelRegistry()
+      const { embeddings, usage } = await embedMany({
+        model: registry.textEmbeddingModel(modelId),
+        values,
+      })
+      if (usageContext) {
+        await recordUsage({
+          ...usageContext,
+          kind: 'embedding',
+          modelId,
+          usage: { inputTokens: usage.tokens, outputTokens: 0, totalTokens: usage.tokens },
+          startedAt,
+        })
+      }
+      return embeddings.map(normalize)
+    },
+  }
+}
+
+/**
+ * Embedding provider for the knowledge base. EMBEDDING_MODEL takes a "<provider>:<model>" id
+ * from the provider registry, e.g. "openai:text-embedding-3-small"; the default is the local
+ * hashing stand-in, which needs no API key.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const modelId = process.env.EMBEDDING_MODEL
+  if (!modelId || modelId === LOCAL_EMBEDDING_MODEL) {
+    return localProvider
+  }
+  if (!isModelId(modelId)) {
+    console.warn(`EMBEDDING_MODEL "${modelId}" is not a "<provider>:<model>" id, using ${LOCAL_EMBEDDING_MODEL}`)
+    return localProvider
+  }
+  return createRegistryProvider(modelId)
+}
+
+/**
+ * Cosine similarity of two normalized vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+  }
+  return dot
+}
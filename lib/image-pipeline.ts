@@ -0,0 +1,196 @@
+import sharp from 'sharp'
+import { parseDataUrl } from './attachments'
+
+// Images sent with a message are checked and normalized before they are saved or reach the
+// model: the real format is read from the file's first bytes (the declared type is not
+// trusted), metadata such as EXIF and GPS is dropped and large images are downscaled.
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const
+
+export type SupportedImageType = (typeof SUPPORTED_IMAGE_TYPES)[number]
+
+export interface NormalizedImage {
+  data: Buffer
+  contentType: SupportedImageType
+  width: number
+  height: number
+}
+
+const THUMBNAIL_SIZE = 256 // Pixels, longest side
+const JPEG_QUALITY = 85
+
+// Signatures of the formats we accept, and of common ones we don't, for a clear error
+const SIGNATURES: { type: string; offset: number; bytes: number[] }[] = [
+  { type: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { type: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }, // WEBP after the RIFF header
+  { type: 'image/bmp', offset: 0, bytes: [0x42, 0x4d] },
+  { type: 'image/tiff', offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+]
+
+// ISO media brands (bytes 8-11 after "ftyp") of HEIC and AVIF photos
+const HEIF_BRANDS: Record<string, string> = {
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+  avif: 'image/avif',
+}
+
+/**
+ * Image limits: IMAGE_MAX_BYTES (default 10 MB) and IMAGE_MAX_PIXELS (default 40 megapixels)
+ * bound what is accepted; IMAGE_MAX_DIMENSION (default 2048 px) is the longest side kept,
+ * about what vision models use
+ */
+export function getImageLimits(): { maxBytes: number; maxPixels: number; maxDimension: number } {
+  const readLimit = (name: string, fallback: number) => {
+    const value = Number(process.env[name])
+    if (process.env[name] && !(Number.isInteger(value) && value > 0)) {
+      console.warn(`Ignoring invalid ${name}: ${process.env[name]}`)
+    }
+    return Number.isInteger(value) && value > 0 ? value : fallback
+  }
+  return {
+    maxBytes: readLimit('IMAGE_MAX_BYTES', 10 * 1024 * 1024),
+    maxPixels: readLimit('IMAGE_MAX_PIXELS', 40_000_000),
+    maxDimension: readLimit('IMAGE_MAX_DIMENSION', 2048),
+  }
+}
+
+/**
+ * Type of a file from its first bytes
+ * @returns null when the format isn't recognized
+ */
+export function sniffMimeType(data: Buffer): string | null {
+  for (const signature of SIGNATURES) {
+    if (signature.bytes.every((byte, index) => data[signature.offset + index] === byte)) {
+      return signature.type
+    }
+  }
+  if (data.subarray(4, 8).toString('latin1') === 'ftyp') {
+    return HEIF_BRANDS[data.subarray(8, 12).toString('latin1')] ?? null
+  }
+  return null
+}
+
+export function isSupportedImageType(type: string | null): type is SupportedImageType {
+  return (SUPPORTED_IMAGE_TYPES as readonly (string | null)[]).includes(type)
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB` : `${Math.ceil(bytes / 1024)} KB`
+}
+
+/**
+ * Check an image and rewrite it without metadata, upright and no larger than the model uses.
+ * JPEG, PNG and WebP keep their format; GIFs become a PNG of their first frame.
+ * @returns The normalized image, or an error message for the user
+ */
+export async function normalizeImage(
+  data: Buffer,
+  filename?: string
+): Promise<{ data?: NormalizedImage; error?: string }> {
+  const limits = getImageLimits()
+  const label = filename ? `"${filename}"` : 'The image'
+
+  if (data.length > limits.maxBytes) {
+    return { error: `${label} is ${formatBytes(data.length)}; images are limited to ${formatBytes(limits.maxBytes)}` }
+  }
+
+  const type = sniffMimeType(data)
+  if (!isSupportedImageType(type)) {
+    return {
+      error: `${label} is ${type ? `in an unsupported format (${type})` : 'not a recognized image'}; send JPEG, PNG, WebP or GIF`,
+    }
+  }
+
+  try {
+    // Only the first frame of animations is read
+    const image = sharp(data, { limitInputPixels: limits.maxPixels, pages: 1 })
+    const metadata = await image.metadata()
+    if (!metadata.width || !metadata.height) {
+      return { error: `${label} could not be read` }
+    }
+
+    // Apply the EXIF orientation before the metadata is dropped, which sharp does by default
+    const pipeline = image.rotate().resize({
+      width: limits.maxDimension,
+      height: limits.maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    const contentType: SupportedImageType = type === 'image/gif' ? 'image/png' : type
+    const output =
+      contentType === 'image/jpeg'
+        ? pipeline.jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+        : contentType === 'image/webp'
+          ? pipeline.webp({ quality: JPEG_QUALITY })
+          : pipeline.png({ compressionLevel: 9 })
+    const { data: normalized, info } = await output.toBuffer({ resolveWithObject: true })
+
+    return { data: { data: normalized, contentType, width: info.width, height: info.height } }
+  } catch (error: any) {
+    if (String(error?.message).includes('pixel limit')) {
+      return { error: `${label} has more than ${Math.round(limits.maxPixels / 1_000_000)} megapixels` }
+    }
+    return { error: `${label} could not be read` }
+  }
+}
+
+/**
+ * Small WebP preview of an image, for attachment tiles
+ */
+export async function createThumbnail(data: Buffer): Promise<Buffer> {
+  return sharp(data, { limitInputPixels: getImageLimits().maxPixels, pages: 1 })
+    .rotate()
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer()
+}
+
+/**
+ * Normalize the images of a message the client sent, as data URLs or bare base64 in its
+ * file and image parts; attachment and web URLs are left alone
+ * @returns The parts with normalized images, or the error of the first rejected image
+ */
+export async function normalizeMessageImages(parts: any[]): Promise<{ data?: any[]; error?: string }> {
+  const normalizedParts: any[] = []
+
+  for (const part of parts) {
+    const isFilePart = part?.type === 'file' && typeof part.url === 'string'
+    const isImagePart = part?.type === 'image' && typeof part.image === 'string'
+    const source: string | undefined = isFilePart ? part.url : isImagePart ? part.image : undefined
+    const isBareBase64 =
+      typeof source === 'string' && source.length > 100 && /^[A-Za-z0-9+/=\s]+$/.test(source)
+    const file = source?.startsWith('data:')
+      ? parseDataUrl(source)
+      : isBareBase64
+        ? { contentType: '', data: Buffer.from(source!.replace(/\s/g, ''), 'base64') }
+        : null
+
+    // Other files (documents) are handled by their own extraction
+    const declaredType = String(part?.mediaType || file?.contentType || '')
+    const sniffedType = file ? sniffMimeType(file.data) : null
+    const isImage =
+      isImagePart || declaredType.startsWith('image/') || Boolean(sniffedType?.startsWith('image/'))
+    if (!file || !isImage) {
+      if (source?.startsWith('data:') && !file) {
+        return { error: `"${part.filename ?? 'Attachment'}" is not a valid data URL` }
+      }
+      normalizedParts.push(part)
+      continue
+    }
+
+    const result = await normalizeImage(file.data, part.filename)
+    if (!result.data) return { error: result.error }
+
+    const url = `data:${result.data.contentType};base64,${result.data.data.toString('base64')}`
+    normalizedParts.push(
+      isFilePart ? { ...part, url, mediaType: result.data.contentType } : { ...part, image: url, mediaType: result.data.contentType }
+    )
+  }
+
+  return { data: normalizedParts }
+}
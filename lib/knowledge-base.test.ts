@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it, mock } from 'node:test'
+
+process.env.EMBEDDING_MODEL = 'openai:text-embedding-3-small'
+process.env.OPENAI_API_KEY = 'test-key'
+
+// lib/prisma reuses the client found on globalThis: give it one that answers the search's queries
+const usageRecords: unknown[] = []
+;(globalThis as any).prisma = {
+  llmProvider: { findMany: async () => [] },
+  knowledgeDocument: {
+    aggregate: async () => ({ _count: { _all: 1 }, _max: { updatedAt: new Date('2026-01-01T00:00:00Z') } }),
+  },
+  knowledgeChunk: {
+    findMany: async () => [
+      {
+        id: 'chunk-1',
+        embedding: [1, 0],
+        position: 0,
+        page: 3,
+        content: 'Section minimale des conducteurs',
+        document: { id: 'document-1', title: 'Procédure câblage', category: 'procedure' },
+      },
+    ],
+  },
+  usageRecord: {
+    create: async (args: unknown) => {
+      usageRecords.push(args)
+      return {}
+    },
+  },
+}
+
+describe('searchKnowledgeBase', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('records the query embedding as usage of the user', async () => {
+    const { searchKnowledgeBase } = await import('./knowledge-base')
+    mock.method(globalThis, 'fetch', async () =>
+      Response.json({
+        object: 'list',
+        data: [{ object: 'embedding', index: 0, embedding: [1, 0] }],
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 7, total_tokens: 7 },
+      })
+    )
+
+    const sources = await searchKnowledgeBase('Quelle section pour 32 A ?', {
+      userId: 'user-1',
+      conversationId: 'conversation-1',
+    })
+
+    assert.equal(sources.length, 1)
+    assert.equal(sources[0].sourceId, 'S1')
+    assert.equal(usageRecords.length, 1)
+    const { data } = usageRecords[0] as { data: Record<string, unknown> }
+    assert.deepEqual(
+      { ...data, latencyMs: 0 },
+      {
+        userId: 'user-1',
+        conversationId: 'conversation-1',
+        kind: 'embedding',
+        model: 'openai:text-embedding-3-small',
+        promptTokens: 7,
+        completionTokens: 0,
+        totalTokens: 7,
+        cost: (7 * 0.02) / 1_000_000,
+        latencyMs: 0,
+        imageRequest: false,
+      }
+    )
+  })
+})
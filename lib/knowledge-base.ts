@@ -0,0 +1,355 @@
+import { prisma } from './prisma'
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings'
+import { extractDocument, getDocumentKind } from './document-extraction'
+import type { UsageContext } from './usage'
+
+export const KNOWLEDGE_CATEGORIES = ['standard', 'procedure', 'datasheet', 'other'] as const
+
+export type KnowledgeCategory = (typeof KNOWLEDGE_CATEGORIES)[number]
+
+// Upload limits; PDF, Word, Excel and CSV files are read like chat attachments, other text as is
+export const MAX_KNOWLEDGE_FILE_SIZE = 10 * 1024 * 1024 // 10 MB
+const TEXT_EXTENSIONS = ['.txt', '.md', '.markdown', '.json']
+const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.csv']
+
+const CHUNK_SIZE = 1200 // Characters per chunk
+const CHUNK_OVERLAP = 200 // Characters repeated from the previous chunk, so passages aren't cut off
+const EMBEDDING_BATCH_SIZE = 64
+
+const DEFAULT_TOP_K = 5
+const DEFAULT_MIN_SCORE = 0.2
+
+export interface KnowledgeSource {
+  sourceId: string // "S1", "S2"... as cited in the answer
+  chunkId: string
+  documentId: string
+  title: string
+  category: string
+  position: number
+  page: number | null
+  content: string
+  score: number
+}
+
+/**
+ * Source id mapping stored with an assistant message, so its citation markers
+ * can be resolved when the conversation is reloaded
+ */
+export type Citation = Pick<KnowledgeSource, 'sourceId' | 'chunkId' | 'documentId' | 'title' | 'page' | 'position'>
+
+export function isKnowledgeCategory(value: unknown): value is KnowledgeCategory {
+  return typeof value === 'string' && (KNOWLEDGE_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Read the text of an uploaded file. PDF pages are separated by form feeds, so chunks keep
+ * their page; sheets of workbooks start with their name.
+ * @returns The text, or an error message for unsupported files
+ */
+export async function extractDocumentText(file: File): Promise<{ data?: string; error?: string }> {
+  if (file.size > MAX_KNOWLEDGE_FILE_SIZE) {
+    return { error: 'File is larger than 10 MB' }
+  }
+
+  const data = Buffer.from(await file.arrayBuffer())
+  const kind = getDocumentKind(data, { mediaType: file.type, filename: file.name })
+  if (kind) {
+    const { data: extraction, error } = await extractDocument(data, { mediaType: file.type, filename: file.name })
+    if (!extraction) return { error }
+
+    if (kind === 'pdf') {
+      // Pages without text are left out of the sections; keep their place
+      const pages: string[] = Array(extraction.pageCount ?? 0).fill('')
+      extraction.sections.forEach((section, index) => {
+        const page = Number(section.label.match(/^Page (\d+)$/)?.[1] ?? index + 1)
+        pages[page - 1] = section.text
+      })
+      return { data: pages.join('\f') }
+    }
+    return {
+      data: extraction.sections
+        .map((section) => (kind === 'xlsx' ? `${section.label}\n\n${section.text}` : section.text))
+        .join('\n\n'),
+    }
+  }
+
+  const fileName = file.name.toLowerCase()
+  const isText = file.type.startsWith('text/') || TEXT_EXTENSIONS.some((extension) => fileName.endsWith(extension))
+  if (!isText) {
+    return { error: `Unsupported file type; upload one of: ${[...DOCUMENT_EXTENSIONS, ...TEXT_EXTENSIONS].join(', ')}` }
+  }
+
+  const text = data.toString('utf8').replace(/\r\n?/g, '\n').trim()
+  if (!text) {
+    return { error: 'File is empty' }
+  }
+
+  return { data: text }
+}
+
+/**
+ * Split a long paragraph at sentence ends, or at spaces when a sentence is still too long
+ */
+function splitParagraph(paragraph: string, size: number): string[] {
+  const pieces: string[] = []
+  let rest = paragraph
+
+  while (rest.length > size) {
+    const window = rest.slice(0, size)
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'))
+    const space = window.lastIndexOf(' ')
+    const cut = sentenceEnd > size / 2 ? sentenceEnd + 1 : space > size / 2 ? space : size
+    pieces.push(rest.slice(0, cut).trim())
+    rest = rest.slice(cut).trim()
+  }
+
+  if (rest) pieces.push(rest)
+  return pieces
+}
+
+/**
+ * Split a document into overlapping chunks along paragraph boundaries
+ * @param text - Document text
+ * @returns Chunks of at most about CHUNK_SIZE + CHUNK_OVERLAP characters
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => splitParagraph(paragraph, size))
+
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > size) {
+      chunks.push(current)
+      // Start the next chunk with the tail of this one
+      const tail = current.slice(-overlap)
+      const start = tail.indexOf(' ')
+      current = start >= 0 ? tail.slice(start + 1) : ''
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Chunk a document page by page, so each chunk can point to its page. Pages are separated
+ * by form feeds, as in text exported from PDFs (e.g. with pdftotext); other documents have no pages.
+ */
+export function chunkDocument(text: string): { content: string; page: number | null }[] {
+  const pages = text.split('\f')
+  if (pages.length === 1) {
+    return chunkText(text).map((content) => ({ content, page: null }))
+  }
+
+  return pages.flatMap((pageText, index) => chunkText(pageText).map((content) => ({ content, page: index + 1 })))
+}
+
+/**
+ * Embed chunks in batches; with a usage context, the calls count as the user's usage
+ */
+export async function embedChunks(
+  chunks: string[],
+  usage?: UsageContext
+): Promise<{ model: string; embeddings: number[][] }> {
+  const provider = getEmbeddingProvider()
+  const embeddings: number[][] = []
+
+  for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...(await provider.embed(chunks.slice(i, i + EMBEDDING_BATCH_SIZE), usage)))
+  }
+
+  return { model: provider.model, embeddings }
+}
+
+/**
+ * Chunk, embed and store an uploaded document
+ * @param usage - Who the embedding calls are recorded for, usually the admin uploading
+ */
+export async function ingestDocument(input: {
+  title: string
+  category: KnowledgeCategory
+  fileName: string
+  mimeType: string
+  size: number
+  text: string
+  uploadedById: string
+}, usage: UsageContext) {
+  const chunks = chunkDocument(input.text)
+  const { model, embeddings } = await embedChunks(chunks.map((chunk) => chunk.content), usage)
+
+  return prisma.knowledgeDocument.create({
+    data: {
+      title: input.title,
+      category: input.category,
+      fileName: input.fileName,
+      mimeType: input.mimeType,
+      size: input.size,
+      embeddingModel: model,
+      uploadedById: input.uploadedById,
+      chunks: {
+        create: chunks.map(({ content, page }, position) => ({
+          position,
+          page,
+          content,
+          embedding: embeddings[position],
+        })),
+      },
+    },
+  })
+}
+
+/**
+ * Re-embed the chunks of a document with the current embedding model,
+ * e.g. after EMBEDDING_MODEL changed
+ * @param usage - Who the embedding calls are recorded for
+ */
+export async function reindexDocument(documentId: string, usage: UsageContext) {
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { documentId },
+    orderBy: { position: 'asc' },
+    select: { id: true, content: true },
+  })
+  const { model, embeddings } = await embedChunks(chunks.map((chunk) => chunk.content), usage)
+
+  await prisma.$transaction([
+    ...chunks.map((chunk, i) =>
+      prisma.knowledgeChunk.update({
+        where: { id: chunk.id },
+        data: { embedding: embeddings[i] },
+      })
+    ),
+    prisma.knowledgeDocument.update({
+      where: { id: documentId },
+      data: { embeddingModel: model },
+    }),
+  ])
+}
+
+// Chunk embeddings of one model, kept between chat requests; stamp identifies the documents they came from
+type EmbeddingCache = { model: string; stamp: string; chunks: { id: string; embedding: number[] }[] }
+
+const globalForKnowledge = globalThis as unknown as {
+  knowledgeEmbeddings: EmbeddingCache | undefined
+}
+
+/**
+ * Embeddings of the chunks to compare with a query. They are loaded once and reloaded only when
+ * a document of the model is added, reindexed or deleted, which the count and latest update show.
+ */
+async function getChunkEmbeddings(model: string): Promise<EmbeddingCache['chunks']> {
+  const documents = await prisma.knowledgeDocument.aggregate({
+    where: { embeddingModel: model },
+    _count: { _all: true },
+    _max: { updatedAt: true },
+  })
+  const stamp = `${documents._count._all}:${documents._max.updatedAt?.toISOString() ?? ''}`
+
+  const cached = globalForKnowledge.knowledgeEmbeddings
+  if (cached && cached.model === model && cached.stamp === stamp) {
+    return cached.chunks
+  }
+
+  const chunks =
+    documents._count._all === 0
+      ? []
+      : await prisma.knowledgeChunk.findMany({
+          where: { document: { embeddingModel: model } },
+          select: { id: true, embedding: true },
+        })
+  globalForKnowledge.knowledgeEmbeddings = { model, stamp, chunks }
+  return chunks
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) ? value : fallback
+}
+
+/**
+ * Find the chunks closest to a query. Similarity is computed here rather than in Postgres,
+ * so no vector extension is needed; only chunks embedded with the current model are compared,
+ * from embeddings cached in memory (see getChunkEmbeddings).
+ * @param query - Usually the last user message
+ * @param usage - Who the query embedding is recorded for
+ * @returns Up to KNOWLEDGE_TOP_K chunks scoring at least KNOWLEDGE_MIN_SCORE, best first
+ */
+export async function searchKnowledgeBase(query: string, usage: UsageContext): Promise<KnowledgeSource[]> {
+  if (!query.trim()) return []
+
+  const provider = getEmbeddingProvider()
+  const candidates = await getChunkEmbeddings(provider.model)
+  if (candidates.length === 0) return []
+
+  const [queryEmbedding] = await provider.embed([query], usage)
+  const minScore = readNumberEnv('KNOWLEDGE_MIN_SCORE', DEFAULT_MIN_SCORE)
+  const topK = readNumberEnv('KNOWLEDGE_TOP_K', DEFAULT_TOP_K)
+
+  const ranked = candidates
+    .map((chunk) => ({ id: chunk.id, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+    .filter((chunk) => chunk.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+  if (ranked.length === 0) return []
+
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { id: { in: ranked.map((chunk) => chunk.id) } },
+    select: {
+      id: true,
+      position: true,
+      page: true,
+      content: true,
+      document: { select: { id: true, title: true, category: true } },
+    },
+  })
+  const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]))
+
+  return ranked.flatMap(({ id, score }, i) => {
+    const chunk = chunksById.get(id)
+    if (!chunk) return []
+    return [
+      {
+        sourceId: `S${i + 1}`,
+        chunkId: chunk.id,
+        documentId: chunk.document.id,
+        title: chunk.document.title,
+        category: chunk.document.category,
+        position: chunk.position,
+        page: chunk.page,
+        content: chunk.content,
+        score,
+      },
+    ]
+  })
+}
+
+/**
+ * System message giving the model the retrieved passages and how to cite them
+ */
+export function formatKnowledgeContext(sources: KnowledgeSource[]): string {
+  const passages = sources.map((source) => {
+    const location = source.page !== null ? `page ${source.page}` : `extrait ${source.position + 1}`
+    return `[${source.sourceId}] ${source.title} (${source.category}, ${location})\n${source.content}`
+  })
+
+  return [
+    "Extraits de la base documentaire interne, classés par pertinence. Appuie-toi en priorité sur ces documents lorsqu'ils répondent à la question, et cite chaque extrait utilisé par son identifiant entre crochets, par exemple [S1], dans le texte et dans les Références normatives. N'invente pas d'identifiant ; si les extraits ne couvrent pas la question, dis-le.",
+    ...passages,
+  ].join('\n\n')
+}
+
+export function toCitations(sources: KnowledgeSource[]): Citation[] {
+  return sources.map(({ sourceId, chunkId, documentId, title, page, position }) => ({
+    sourceId,
+    chunkId,
+    documentId,
+    title,
+    page,
+    position,
+  }))
+}
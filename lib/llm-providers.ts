@@ -0,0 +1,175 @@
+import { createProviderRegistry } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createAzure } from '@ai-sdk/azure'
+import { prisma } from './prisma'
+
+// Model ids are "<providerId>:<modelName>", e.g. "openai:gpt-4o" or "local:llama3"
+export type ModelId = `${string}:${string}`
+
+export type ProviderKind = 'openai' | 'azure' | 'openai-compatible'
+
+export interface ProviderConfig {
+  id: string
+  kind: ProviderKind
+  baseUrl?: string | null
+  apiKeyEnv?: string | null // Name of the env variable holding the API key
+}
+
+type ProviderRegistry = ReturnType<typeof createProviderRegistry>
+type RegistryProvider = Parameters<typeof createProviderRegistry>[0][string]
+export type ResolvedModel = ReturnType<ProviderRegistry['languageModel']>
+
+const REGISTRY_TTL = 30 * 1000 // Reload DB providers at most every 30 seconds
+
+/**
+ * Provider factories by kind. Adding a new kind of backend only means adding an entry here;
+ * individual providers are declared through LLM_PROVIDERS or the LlmProvider table.
+ */
+const providerFactories: Record<ProviderKind, (config: ProviderConfig) => RegistryProvider> = {
+  openai: (config) =>
+    createOpenAI({
+      baseURL: config.baseUrl || undefined,
+      apiKey: readApiKey(config),
+    }),
+  azure: (config) =>
+    createAzure({
+      baseURL: config.baseUrl || undefined,
+      apiKey: readApiKey(config),
+    }),
+  // Self-hosted OpenAI-compatible servers (vLLM, LM Studio, Ollama's /v1 endpoint...)
+  // usually don't check the key, but the OpenAI client requires one
+  'openai-compatible': (config) =>
+    createOpenAI({
+      baseURL: config.baseUrl || undefined,
+      apiKey: readApiKey(config) || 'not-needed',
+    }),
+}
+
+const globalForRegistry = globalThis as unknown as {
+  modelRegistry: { registry: ProviderRegistry; loadedAt: number } | undefined
+}
+
+function readApiKey(config: ProviderConfig): string | undefined {
+  return config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined
+}
+
+/**
+ * Env variables providers configured by admins may read their key from: LLM_<NAME>_API_KEY,
+ * OPENAI_API_KEY and AZURE_API_KEY. The key is sent to the provider's base URL, so any other
+ * secret of the server (DATABASE_URL, SMTP or S3 credentials...) must stay out of reach.
+ */
+export function isAllowedApiKeyEnv(name: unknown): name is string {
+  return typeof name === 'string' && /^(LLM_[A-Z0-9_]+|OPENAI|AZURE)_API_KEY$/.test(name)
+}
+
+export const API_KEY_ENV_ERROR = 'apiKeyEnv must be LLM_<NAME>_API_KEY, OPENAI_API_KEY or AZURE_API_KEY'
+
+export function isProviderKind(kind: unknown): kind is ProviderKind {
+  return typeof kind === 'string' && kind in providerFactories
+}
+
+/**
+ * Providers declared in the environment.
+ * OPENAI_API_KEY registers the default "openai" provider, LLM_PROVIDERS accepts a JSON array
+ * of additional providers, e.g. [{"id":"local","kind":"openai-compatible","baseUrl":"http://localhost:11434/v1"}]
+ */
+function getEnvProviders(): ProviderConfig[] {
+  const providers: ProviderConfig[] = [{ id: 'openai', kind: 'openai', apiKeyEnv: 'OPENAI_API_KEY' }]
+
+  if (process.env.LLM_PROVIDERS) {
+    try {
+      const parsed = JSON.parse(process.env.LLM_PROVIDERS)
+      if (Array.isArray(parsed)) {
+        for (const entry of parsed) {
+          if (entry && typeof entry.id === 'string' && isProviderKind(entry.kind)) {
+            providers.push(entry)
+          } else {
+            console.warn('Ignoring invalid LLM_PROVIDERS entry:', entry)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('LLM_PROVIDERS is not valid JSON:', error)
+    }
+  }
+
+  return providers
+}
+
+/**
+ * Providers configured by admins in the database
+ */
+async function getDatabaseProviders(): Promise<ProviderConfig[]> {
+  try {
+    const providers = await prisma.llmProvider.findMany({
+      where: { enabled: true },
+    })
+    return providers
+      .filter((provider) => isProviderKind(provider.kind))
+      .map((provider) => {
+        // Rows saved before the restriction
+        if (provider.apiKeyEnv && !isAllowedApiKeyEnv(provider.apiKeyEnv)) {
+          console.warn(`Ignoring apiKeyEnv ${provider.apiKeyEnv} of provider ${provider.id}: ${API_KEY_ENV_ERROR}`)
+          return { ...provider, apiKeyEnv: null }
+        }
+        return provider
+      }) as ProviderConfig[]
+  } catch (error) {
+    console.error('Failed to load LLM providers from database:', error)
+    return []
+  }
+}
+
+async function buildRegistry(): Promise<ProviderRegistry> {
+  // Database entries override environment entries with the same id
+  const configs = new Map<string, ProviderConfig>()
+  for (const config of [...getEnvProviders(), ...(await getDatabaseProviders())]) {
+    configs.set(config.id, config)
+  }
+
+  const providers: Record<string, RegistryProvider> = {}
+  for (const config of configs.values()) {
+    providers[config.id] = providerFactories[config.kind](config)
+  }
+
+  return createProviderRegistry(providers)
+}
+
+/**
+ * Get the provider registry, rebuilding it when the cached copy is stale
+ */
+export async function getModelRegistry(): Promise<ProviderRegistry> {
+  const cached = globalForRegistry.modelRegistry
+  if (cached && Date.now() - cached.loadedAt < REGISTRY_TTL) {
+    return cached.registry
+  }
+
+  const registry = await buildRegistry()
+  globalForRegistry.modelRegistry = { registry, loadedAt: Date.now() }
+  return registry
+}
+
+/**
+ * Drop the cached registry so the next request picks up provider changes
+ */
+export function invalidateModelRegistry(): void {
+  globalForRegistry.modelRegistry = undefined
+}
+
+/**
+ * Resolve a model id such as "openai:gpt-4o" to an AI SDK language model
+ * @param modelId - "<providerId>:<modelName>"
+ * @returns The language model
+ * @throws NoSuchProviderError if the provider is not configured
+ */
+export async function resolveModel(modelId: ModelId): Promise<ResolvedModel> {
+  const registry = await getModelRegistry()
+  return registry.languageModel(modelId)
+}
+
+/**
+ * Check that a value has the "<providerId>:<modelName>" shape
+ */
+export function isModelId(value: unknown): value is ModelId {
+  return typeof value === 'string' && /^[^:\s]+:\S+$/.test(value)
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto'
+import { prisma } from './prisma'
+
+// Messages form a tree: each points to the message it answers or follows, so an edited
+// question or a regenerated answer is a sibling of the original and every branch is kept.
+// The conversation remembers the last message of the branch on screen (activeMessageId).
+
+// How an assistant answer ended: in full, stopped by the user (or a disconnect) or by an error
+export type MessageStatus = 'complete' | 'aborted' | 'error'
+
+const CLIENT_MESSAGE_ID = /^[\w-]{1,64}$/
+
+/**
+ * Id to store a message under: the id the client gave it, so later requests can name it
+ * as a parent, or a new one when it's malformed or already taken
+ */
+export async function getNewMessageId(clientId: unknown): Promise<string> {
+  if (typeof clientId === 'string' && CLIENT_MESSAGE_ID.test(clientId)) {
+    const existing = await prisma.message.findUnique({ where: { id: clientId }, select: { id: true } })
+    if (!existing) return clientId
+  }
+  return crypto.randomUUID()
+}
+
+/**
+ * The message with this id if it's in the conversation, else null
+ */
+export async function findConversationMessage(
+  conversationId: string,
+  messageId: unknown
+): Promise<{ id: string; role: string } | null> {
+  if (typeof messageId !== 'string' || !messageId) return null
+  return prisma.message.findFirst({
+    where: { id: messageId, conversationId },
+    select: { id: true, role: true },
+  })
+}
+
+/**
+ * Messages saved before branches were stored have no parent and the conversation no active
+ * message: they form a single branch, in creation order
+ * @returns The parent of each message and the last message of the active branch
+ */
+export function resolveMessageTree<T extends { id: string; parentId: string | null }>(
+  messages: T[], // Ordered by creation
+  activeMessageId: string | null
+): { messages: T[]; headId: string | null } {
+  if (activeMessageId === null) {
+    return {
+      messages: messages.map((message, index) => ({ ...message, parentId: index > 0 ? messages[index - 1].id : null })),
+      headId: messages.at(-1)?.id ?? null,
+    }
+  }
+
+  const ids = new Set(messages.map((message) => message.id))
+  return {
+    messages,
+    headId: ids.has(activeMessageId) ? activeMessageId : (messages.at(-1)?.id ?? null),
+  }
+}
+
+/**
+ * Store the single branch of a conversation saved before branches were, so new messages
+ * can be attached to it
+ * @returns The last message, which becomes the active one
+ */
+export async function linkLegacyMessages(conversationId: string): Promise<string | null> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, parentId: true },
+  })
+  const { messages: linked, headId } = resolveMessageTree(messages, null)
+
+  await prisma.$transaction([
+    ...linked
+      .filter((message) => message.parentId !== null)
+      .map((message) =>
+        prisma.message.update({ where: { id: message.id }, data: { parentId: message.parentId } })
+      ),
+    prisma.conversation.update({ where: { id: conversationId }, data: { activeMessageId: headId } }),
+  ])
+
+  return headId
+}
@@ -0,0 +1,267 @@
+import { wrapLanguageModel } from 'ai'
+import { prisma } from './prisma'
+import { isModelId, resolveModel, type ModelId, type ResolvedModel } from './llm-providers'
+
+export type AttachmentKind = 'image' | 'document'
+
+export interface RoutingContext {
+  attachmentKinds: Set<AttachmentKind> // Attachments found anywhere in the conversation
+  messageLength: number // Text length of the latest user message
+  userRole: string
+  conversationProfile: string | null // Conversation.modelProfile
+  userChoice: string | null // Model explicitly requested by the user
+}
+
+export interface ModelRoute {
+  modelId: ModelId
+  fallbackModelId: ModelId | null
+  ruleId: string | null // null when no admin rule matched
+}
+
+export interface RoutedModel {
+  model: ResolvedModel
+  /** The model that actually served the request (changes when the fallback kicks in) */
+  getModelId: () => ModelId
+}
+
+interface RoutingRuleConditions {
+  attachmentType: string | null
+  minMessageLength: number | null
+  maxMessageLength: number | null
+  userRole: string | null
+  conversationProfile: string | null
+  userChoice: string | null
+}
+
+/**
+ * Default route used when no admin rule matches: a vision model for images,
+ * a cheaper model for everything else
+ */
+function getDefaultRoute(context: RoutingContext): ModelRoute {
+  const modelId = context.attachmentKinds.has('image')
+    ? process.env.CHAT_VISION_MODEL || 'openai:gpt-4o'
+    : process.env.CHAT_MODEL || 'openai:gpt-4o-mini'
+
+  return { modelId: modelId as ModelId, fallbackModelId: null, ruleId: null }
+}
+
+/**
+ * Check a rule's conditions against the request. Unset conditions match anything.
+ */
+function ruleMatches(rule: RoutingRuleConditions, context: RoutingContext): boolean {
+  if (rule.attachmentType) {
+    if (rule.attachmentType === 'none') {
+      if (context.attachmentKinds.size > 0) return false
+    } else if (!context.attachmentKinds.has(rule.attachmentType as AttachmentKind)) {
+      return false
+    }
+  }
+  if (rule.minMessageLength !== null && context.messageLength < rule.minMessageLength) return false
+  if (rule.maxMessageLength !== null && context.messageLength > rule.maxMessageLength) return false
+  if (rule.userRole && rule.userRole !== context.userRole) return false
+  if (rule.conversationProfile && rule.conversationProfile !== context.conversationProfile) return false
+  if (rule.userChoice && rule.userChoice !== context.userChoice) return false
+  return true
+}
+
+/**
+ * Pick the model for a chat request: the first enabled rule (by ascending priority)
+ * whose conditions all match wins, otherwise the default route applies
+ */
+export async function selectModelRoute(context: RoutingContext): Promise<ModelRoute> {
+  let rules
+  try {
+    rules = await prisma.routingRule.findMany({
+      where: { enabled: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    })
+  } catch (error) {
+    console.error('Failed to load routing rules:', error)
+    return getDefaultRoute(context)
+  }
+
+  const rule = rules.find((candidate) => ruleMatches(candidate, context))
+  if (!rule || !isModelId(rule.model)) {
+    return getDefaultRoute(context)
+  }
+
+  return {
+    modelId: rule.model,
+    fallbackModelId: isModelId(rule.fallbackModel) ? rule.fallbackModel : null,
+    ruleId: rule.id,
+  }
+}
+
+/**
+ * Resolve a route to a language model. When the route has a fallback, it is used if the
+ * primary model cannot be resolved or fails before streaming starts.
+ */
+export async function createRoutedModel(route: ModelRoute): Promise<RoutedModel> {
+  let usedModelId = route.modelId
+
+  if (!route.fallbackModelId) {
+    return { model: await resolveModel(route.modelId), getModelId: () => usedModelId }
+  }
+
+  const fallbackModelId = route.fallbackModelId
+  const useFallback = (error: unknown) => {
+    console.warn(`Model ${route.modelId} failed, using fallback ${fallbackModelId}:`, error)
+    usedModelId = fallbackModelId
+    return resolveModel(fallbackModelId)
+  }
+
+  let primaryModel: ResolvedModel
+  try {
+    primaryModel = await resolveModel(route.modelId)
+  } catch (error) {
+    return { model: await useFallback(error), getModelId: () => usedModelId }
+  }
+
+  const model = wrapLanguageModel({
+    model: primaryModel,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        try {
+          return await doGenerate()
+        } catch (error) {
+          return (await useFallback(error)).doGenerate(params)
+        }
+      },
+      wrapStream: async ({ doStream, params }) => {
+        try {
+          return await doStream()
+        } catch (error) {
+          return (await useFallback(error)).doStream(params)
+        }
+      },
+    },
+  })
+
+  return { model, getModelId: () => usedModelId }
+}
+
+/**
+ * Collect the attachment kinds present in model messages
+ */
+export function getAttachmentKinds(messages: any[]): Set<AttachmentKind> {
+  const kinds = new Set<AttachmentKind>()
+
+  for (const message of messages) {
+    if (!Array.isArray(message?.content)) continue
+
+    for (const part of message.content) {
+      if (part?.type === 'image' || (part?.type === 'image_url' && part.image_url?.url)) {
+        kinds.add('image')
+      } else if (part?.type === 'file') {
+        const mediaType = String(part.mediaType || part.mimeType || '')
+        kinds.add(mediaType.startsWith('image/') ? 'image' : 'document')
+      }
+    }
+  }
+
+  return kinds
+}
+
+/**
+ * Text of a model message, ignoring non-text parts
+ */
+export function getMessageText(message: any): string {
+  if (!message) return ''
+  if (typeof message.content === 'string') return message.content
+  if (!Array.isArray(message.content)) return ''
+
+  return message.content
+    .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+    .map((part: any) => part.text)
+    .join('\n')
+}
+
+/**
+ * Text length of a model message, ignoring non-text parts
+ */
+export function getMessageTextLength(message: any): number {
+  return getMessageText(message).length
+}
+
+export type RoutingRuleInput = Partial<RoutingRuleConditions> & {
+  name?: string
+  priority?: number
+  enabled?: boolean
+  model?: string
+  fallbackModel?: string | null
+}
+
+/**
+ * Validate a routing rule payload from the admin API
+ * @param body - Request body
+ * @param partial - true for updates, where every field is optional
+ * @returns The sanitized rule data, or an error message
+ */
+export function parseRoutingRuleInput(
+  body: any,
+  partial: boolean
+): { data: RoutingRuleInput; error?: undefined } | { data?: undefined; error: string } {
+  const data: RoutingRuleInput = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.model !== undefined || !partial) {
+    if (!isModelId(body.model)) {
+      return { error: 'model must look like "<provider>:<model>"' }
+    }
+    data.model = body.model
+  }
+
+  if (body.fallbackModel !== undefined) {
+    if (body.fallbackModel !== null && body.fallbackModel !== '' && !isModelId(body.fallbackModel)) {
+      return { error: 'fallbackModel must look like "<provider>:<model>"' }
+    }
+    data.fallbackModel = body.fallbackModel || null
+  }
+
+  if (body.priority !== undefined) {
+    if (!Number.isInteger(body.priority)) {
+      return { error: 'priority must be an integer' }
+    }
+    data.priority = body.priority
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' }
+    }
+    data.enabled = body.enabled
+  }
+
+  if (body.attachmentType !== undefined) {
+    if (body.attachmentType !== null && body.attachmentType !== '' && !['image', 'document', 'none'].includes(body.attachmentType)) {
+      return { error: 'attachmentType must be one of: image, document, none' }
+    }
+    data.attachmentType = body.attachmentType || null
+  }
+
+  for (const field of ['minMessageLength', 'maxMessageLength'] as const) {
+    if (body[field] !== undefined) {
+      if (body[field] !== null && (!Number.isInteger(body[field]) || body[field] < 0)) {
+        return { error: `${field} must be a positive integer` }
+      }
+      data[field] = body[field]
+    }
+  }
+
+  for (const field of ['userRole', 'conversationProfile', 'userChoice'] as const) {
+    if (body[field] !== undefined) {
+      if (body[field] !== null && typeof body[field] !== 'string') {
+        return { error: `${field} must be a string` }
+      }
+      data[field] = body[field]?.trim() || null
+    }
+  }
+
+  return { data }
+}
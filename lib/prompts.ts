@@ -0,0 +1,143 @@
+import { createHash } from 'crypto'
+import { prisma } from './prisma'
+
+// Name of the template used as the chat system prompt
+export const SYSTEM_PROMPT_TEMPLATE = 'system'
+
+// Strict response format system prompt, used until a version is published in the prompt library
+export const DEFAULT_SYSTEM_PROMPT = `Tu es un assistant technique spécialisé. Tu dois TOUJOURS répondre en suivant cette structure exacte :
+
+**1. Résumé (2 lignes maximum)**
+Une synthèse claire et concise de la réponse.
+
+**2. Analyse technique**
+Détails techniques pertinents, concepts clés, et contexte nécessaire.
+
+**3. Références normatives**
+Standards, normes, bonnes pratiques, ou documentation officielle applicables.
+
+**4. Logique / Schéma**
+Explication de la logique, du flux de travail, ou de l'architecture. Quand un schéma s'y prête (architecture, flux, séquence, états), fournis-le dans un bloc de code \`\`\`mermaid valide (flowchart, sequenceDiagram, stateDiagram-v2...) ; sinon, utilise du texte ou du pseudo-code. N'utilise pas de schémas en art ASCII.
+
+**5. Solutions / Recommandations**
+Solutions concrètes, étapes à suivre, ou recommandations actionnables.
+
+**6. Points de vigilance**
+Risques, limitations, pièges à éviter, ou considérations importantes.
+
+**7. Version courte** (si pertinent)
+Résumé ultra-concis pour référence rapide (optionnel selon le contexte).
+
+IMPORTANT: 
+- Tu dois respecter cette structure pour TOUTES les réponses, sans exception. Ne fournis jamais de réponses non structurées.
+- Tu PEUX et DOIS analyser des images. Quand un utilisateur envoie une image, tu DOIS l'analyser en détail et fournir une réponse structurée selon le format ci-dessus.
+- Si un message contient une image, analyse-la complètement et décris ce que tu vois dans ta réponse.
+- Pour tout calcul numérique ou conversion d'unités, utilise l'outil \`calculate\` au lieu de calculer toi-même, et reprends ses résultats dans l'Analyse technique.`
+
+// SHA-256 of earlier built-in system prompts (library, then Mermaid diagrams), which installs
+// seeded with them may still publish unedited
+const PREVIOUS_SYSTEM_PROMPT_HASHES = [
+  'bdf3dcfe497cc8ba8fc478e38151cabf30089c723c493990247377b6389a1be4',
+  'f0d90ff4847bbb54c65698e2eb12a7b1294e6df4bc59b549da1bbcd713247050',
+]
+
+export type PromptVersionStatus = 'draft' | 'published' | 'archived'
+
+export interface ActivePrompt {
+  content: string
+  versionId: string | null // null when falling back to the built-in default
+}
+
+const defaultPrompts: Record<string, string> = {
+  [SYSTEM_PROMPT_TEMPLATE]: DEFAULT_SYSTEM_PROMPT,
+}
+
+/**
+ * Get the published version of a prompt template
+ * @param name - The template name
+ * @returns The prompt content and version ID, or the built-in default when nothing is published
+ */
+export async function getActivePrompt(name: string): Promise<ActivePrompt> {
+  try {
+    const version = await prisma.promptVersion.findFirst({
+      where: {
+        status: 'published',
+        template: { name },
+      },
+      select: { id: true, content: true },
+    })
+
+    if (version) {
+      return { content: version.content, versionId: version.id }
+    }
+  } catch (error) {
+    console.error(`Failed to load prompt template "${name}":`, error)
+  }
+
+  return { content: defaultPrompts[name] ?? '', versionId: null }
+}
+
+/**
+ * Publish a prompt version, archiving the previously published one.
+ * Publishing an older version is how admins roll back.
+ * @param versionId - The version to publish
+ */
+export async function publishPromptVersion(versionId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const version = await tx.promptVersion.findUniqueOrThrow({
+      where: { id: versionId },
+    })
+
+    await tx.promptVersion.updateMany({
+      where: {
+        templateId: version.templateId,
+        status: 'published',
+        id: { not: versionId },
+      },
+      data: { status: 'archived' },
+    })
+
+    await tx.promptVersion.update({
+      where: { id: versionId },
+      data: { status: 'published', publishedAt: new Date() },
+    })
+  })
+}
+
+/**
+ * Add the current built-in system prompt to the library when no version has it yet.
+ * The new version is published when the live one is an unedited earlier built-in prompt,
+ * and left as a draft for admins to review when they have customized the prompt.
+ * @param createdById - The admin recorded as author of the new version
+ * @returns The version added, or null when the library already has the built-in prompt
+ */
+export async function addBuiltInSystemPrompt(
+  createdById: string
+): Promise<{ version: number; status: PromptVersionStatus } | null> {
+  const template = await prisma.promptTemplate.findUnique({
+    where: { name: SYSTEM_PROMPT_TEMPLATE },
+    include: { versions: { select: { version: true, content: true, status: true } } },
+  })
+  if (!template || template.versions.some((version) => version.content === DEFAULT_SYSTEM_PROMPT)) {
+    return null
+  }
+
+  const published = template.versions.find((version) => version.status === 'published')
+  const upgrade =
+    !published ||
+    PREVIOUS_SYSTEM_PROMPT_HASHES.includes(createHash('sha256').update(published.content).digest('hex'))
+
+  const created = await prisma.promptVersion.create({
+    data: {
+      templateId: template.id,
+      version: Math.max(0, ...template.versions.map((version) => version.version)) + 1,
+      content: DEFAULT_SYSTEM_PROMPT,
+      createdById,
+    },
+  })
+  if (upgrade) {
+    await publishPromptVersion(created.id)
+  }
+
+  return { version: created.version, status: upgrade ? 'published' : 'draft' }
+}
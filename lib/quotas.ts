@@ -0,0 +1,283 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { RESERVED_USAGE_MODEL } from './usage'
+
+export type QuotaPeriod = 'day' | 'month'
+export type QuotaKind = 'messages' | 'tokens' | 'imageRequests'
+
+export type QuotaLimitKey =
+  | 'dailyMessages'
+  | 'monthlyMessages'
+  | 'dailyTokens'
+  | 'monthlyTokens'
+  | 'dailyImageRequests'
+  | 'monthlyImageRequests'
+
+export type QuotaLimits = Record<QuotaLimitKey, number | null>
+
+export interface QuotaUsage {
+  limit: QuotaLimitKey
+  kind: QuotaKind
+  period: QuotaPeriod
+  max: number
+  used: number
+  remaining: number
+  resetAt: string // ISO date
+}
+
+export interface QuotaStatus {
+  limits: QuotaUsage[] // Only the limits that are set
+  exceeded: QuotaUsage | null // First exhausted limit; image limits count whatever the next request
+}
+
+export const QUOTA_LIMITS: { key: QuotaLimitKey; kind: QuotaKind; period: QuotaPeriod }[] = [
+  { key: 'dailyMessages', kind: 'messages', period: 'day' },
+  { key: 'monthlyMessages', kind: 'messages', period: 'month' },
+  { key: 'dailyTokens', kind: 'tokens', period: 'day' },
+  { key: 'monthlyTokens', kind: 'tokens', period: 'month' },
+  { key: 'dailyImageRequests', kind: 'imageRequests', period: 'day' },
+  { key: 'monthlyImageRequests', kind: 'imageRequests', period: 'month' },
+]
+
+const QUOTA_NOUNS: Record<QuotaKind, string> = {
+  messages: 'message',
+  tokens: 'token',
+  imageRequests: 'image request',
+}
+
+/**
+ * Human-readable reason for an exhausted limit, e.g. "Daily message limit reached (50 messages)"
+ */
+export function describeQuotaExceeded(usage: Pick<QuotaUsage, 'kind' | 'period' | 'max'>): string {
+  const noun = QUOTA_NOUNS[usage.kind]
+  const period = usage.period === 'day' ? 'Daily' : 'Monthly'
+  return `${period} ${noun} limit reached (${usage.max.toLocaleString('en-US')} ${noun}s)`
+}
+
+/**
+ * Start of the current period and of the next one, in UTC
+ */
+function getPeriodBounds(period: QuotaPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+
+  if (period === 'month') {
+    return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) }
+  }
+  const day = now.getUTCDate()
+  return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) }
+}
+
+type QuotaClient = Prisma.TransactionClient
+
+/**
+ * Limits that apply to a user: the user override first, then the role quota for the limits the
+ * override leaves unset. An override can lift a limit with its unlimited list.
+ */
+export async function getEffectiveQuota(
+  user: { id: string; role: string },
+  db: QuotaClient = prisma
+): Promise<QuotaLimits> {
+  const quotas = await db.quota.findMany({
+    where: { OR: [{ role: user.role }, { userId: user.id }] },
+  })
+  const roleQuota = quotas.find((quota) => quota.role === user.role)
+  const userQuota = quotas.find((quota) => quota.userId === user.id)
+
+  return Object.fromEntries(
+    QUOTA_LIMITS.map(({ key }) => {
+      if (userQuota?.unlimited.includes(key)) return [key, null]
+      if (userQuota && userQuota[key] !== null) return [key, userQuota[key]]
+      return [key, roleQuota?.[key] ?? null]
+    })
+  ) as QuotaLimits
+}
+
+/**
+ * Tokens, chat answers and chat answers with images recorded for a user since a date
+ */
+async function getUsageSince(
+  db: QuotaClient,
+  userId: string,
+  since: Date
+): Promise<Record<QuotaKind, number>> {
+  const groups = await db.usageRecord.groupBy({
+    by: ['kind', 'imageRequest'],
+    where: { userId, createdAt: { gte: since } },
+    _sum: { totalTokens: true },
+    _count: { _all: true },
+  })
+
+  const usage: Record<QuotaKind, number> = { messages: 0, tokens: 0, imageRequests: 0 }
+  for (const group of groups) {
+    usage.tokens += group._sum.totalTokens ?? 0
+    if (group.kind === 'chat') {
+      usage.messages += group._count._all
+      if (group.imageRequest) usage.imageRequests += group._count._all
+    }
+  }
+  return usage
+}
+
+/**
+ * Usage of each limit set for the user, counted from the UsageRecord table.
+ * Messages and image requests count chat answers, reserved ones included; tokens include background
+ * repairs, titles and embeddings.
+ */
+export async function getQuotaStatus(
+  user: { id: string; role: string },
+  now = new Date(),
+  db: QuotaClient = prisma
+): Promise<QuotaStatus> {
+  const limits = await getEffectiveQuota(user, db)
+  const activeLimits = QUOTA_LIMITS.filter(({ key }) => limits[key] !== null)
+  if (activeLimits.length === 0) {
+    return { limits: [], exceeded: null }
+  }
+
+  const bounds = { day: getPeriodBounds('day', now), month: getPeriodBounds('month', now) }
+  const used: Partial<Record<QuotaPeriod, Record<QuotaKind, number>>> = {}
+  for (const period of new Set(activeLimits.map(({ period }) => period))) {
+    used[period] = await getUsageSince(db, user.id, bounds[period].start)
+  }
+
+  const usages = activeLimits.map(({ key, kind, period }): QuotaUsage => {
+    const max = limits[key] as number
+    const count = used[period]?.[kind] ?? 0
+    return {
+      limit: key,
+      kind,
+      period,
+      max,
+      used: count,
+      remaining: Math.max(0, max - count),
+      resetAt: bounds[period].end.toISOString(),
+    }
+  })
+
+  return { limits: usages, exceeded: usages.find((usage) => usage.remaining === 0) ?? null }
+}
+
+function findBlockingLimit(status: QuotaStatus, imageRequest: boolean): QuotaUsage | null {
+  return (
+    status.limits.find(
+      (usage) => usage.remaining === 0 && (usage.kind !== 'imageRequests' || imageRequest)
+    ) ?? null
+  )
+}
+
+/**
+ * Check a request against the user's quota
+ * @param imageRequest - The request sends images, so image limits apply
+ * @returns The exhausted limit blocking the request, or null when it can go through
+ */
+export async function checkQuota(
+  user: { id: string; role: string },
+  { imageRequest }: { imageRequest: boolean }
+): Promise<QuotaUsage | null> {
+  return findBlockingLimit(await getQuotaStatus(user), imageRequest)
+}
+
+/**
+ * Check a chat request against the user's quota and reserve its answer right away, so concurrent
+ * requests count each other. Checks of one user are serialized by a transaction lock.
+ * The reservation is a UsageRecord without tokens, for RESERVED_USAGE_MODEL, that recordUsage completes
+ * when the answer ends; release it when the request fails before that.
+ * @returns The exhausted limit blocking the request, or the reserved record (null when no limit is set)
+ */
+export async function reserveQuota(
+  user: { id: string; role: string },
+  { imageRequest }: { imageRequest: boolean }
+): Promise<{ exceeded: QuotaUsage; reservationId?: undefined } | { exceeded: null; reservationId: string | null }> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`quota:${user.id}`}))`
+
+    const status = await getQuotaStatus(user, new Date(), tx)
+    const exceeded = findBlockingLimit(status, imageRequest)
+    if (exceeded) return { exceeded }
+    if (status.limits.length === 0) return { exceeded: null, reservationId: null }
+
+    const reservation = await tx.usageRecord.create({
+      data: {
+        userId: user.id,
+        kind: 'chat',
+        model: RESERVED_USAGE_MODEL,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        latencyMs: 0,
+        imageRequest,
+      },
+      select: { id: true },
+    })
+    return { exceeded: null, reservationId: reservation.id }
+  })
+}
+
+/**
+ * Drop the reservation of a chat request that failed before any usage was recorded
+ */
+export async function releaseQuotaReservation(reservationId: string | null): Promise<void> {
+  if (!reservationId) return
+  await prisma.usageRecord.deleteMany({ where: { id: reservationId } }).catch((error) => {
+    console.error('Failed to release quota reservation:', error)
+  })
+}
+
+export type QuotaInput = Partial<QuotaLimits> & {
+  role?: string | null
+  userId?: string | null
+  unlimited?: QuotaLimitKey[]
+}
+
+/**
+ * Validate a quota payload from the admin API
+ * @param body - Request body
+ * @param partial - true for updates, where the target (role or userId) can't change
+ * @returns The sanitized quota data, or an error message
+ */
+export function parseQuotaInput(
+  body: any,
+  partial: boolean
+): { data: QuotaInput; error?: undefined } | { data?: undefined; error: string } {
+  const data: QuotaInput = {}
+
+  if (!partial) {
+    const role = typeof body.role === 'string' ? body.role.trim() : ''
+    const userId = typeof body.userId === 'string' ? body.userId.trim() : ''
+    if (!role === !userId) {
+      return { error: 'Set either role or userId' }
+    }
+    data.role = role || null
+    data.userId = userId || null
+  }
+
+  for (const { key } of QUOTA_LIMITS) {
+    if (body[key] !== undefined) {
+      if (body[key] !== null && (!Number.isInteger(body[key]) || body[key] < 0)) {
+        return { error: `${key} must be a positive integer` }
+      }
+      data[key] = body[key]
+    }
+  }
+
+  // Limits a user override lifts, whatever the role quota sets
+  if (body.unlimited !== undefined) {
+    if (
+      !Array.isArray(body.unlimited) ||
+      !body.unlimited.every((key: unknown) => QUOTA_LIMITS.some((limit) => limit.key === key))
+    ) {
+      return { error: `unlimited must list limits among ${QUOTA_LIMITS.map(({ key }) => key).join(', ')}` }
+    }
+    if (data.role && body.unlimited.length > 0) {
+      return { error: 'Only user overrides can lift limits' }
+    }
+    const conflict = (body.unlimited as QuotaLimitKey[]).find((key) => data[key] != null)
+    if (conflict) {
+      return { error: `${conflict} can't be both set and unlimited` }
+    }
+    data.unlimited = Array.from(new Set(body.unlimited as QuotaLimitKey[]))
+  }
+
+  return { data }
+}
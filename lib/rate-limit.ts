@@ -0,0 +1,326 @@
+import { prisma } from './prisma'
+
+export type RateLimitName =
+  | 'chat:ip'
+  | 'chat:user'
+  | 'login:ip'
+  | 'login:ip-account'
+  | 'forgot-password:ip'
+  | 'forgot-password:ip-account'
+  | 'signup:ip'
+  | 'signup:global'
+
+export interface RateLimitRule {
+  limit: number // Requests allowed per window
+  windowSeconds: number
+}
+
+export interface RateLimitCheck {
+  name: RateLimitName
+  subject: string | null // IP address, user id or account key (see getAccountKey); checks without one are skipped
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  windowSeconds: number
+  resetSeconds: number // Until a request is allowed again when blocked, else until the window ends
+}
+
+/**
+ * Counter store: hit increments the current window of a key and returns it with the previous
+ * window; release takes back a hit of a request that was rejected
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, now: number): Promise<{ current: number; previous: number }>
+  release(key: string, windowMs: number, now: number): Promise<void>
+}
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitName, RateLimitRule> = {
+  'chat:ip': { limit: 60, windowSeconds: 60 },
+  'chat:user': { limit: 20, windowSeconds: 60 },
+  'login:ip': { limit: 20, windowSeconds: 15 * 60 },
+  'login:ip-account': { limit: 5, windowSeconds: 15 * 60 },
+  'forgot-password:ip': { limit: 10, windowSeconds: 60 * 60 },
+  'forgot-password:ip-account': { limit: 3, windowSeconds: 60 * 60 },
+  'signup:ip': { limit: 5, windowSeconds: 60 * 60 },
+  'signup:global': { limit: 50, windowSeconds: 60 * 60 }, // All signups, when client addresses are unknown
+}
+
+const MEMORY_STORE_SWEEP_SIZE = 10_000 // Drop stale keys once the map grows past this
+const POSTGRES_CLEANUP_RATE = 0.01 // Share of hits that also delete expired buckets
+
+/**
+ * Rules: the defaults, overridden by RATE_LIMITS, a JSON object keyed by rule name, e.g.
+ * {"chat:user":{"limit":30,"windowSeconds":60},"signup:ip":null} (null disables a rule)
+ */
+export function getRateLimitRules(): Record<RateLimitName, RateLimitRule | null> {
+  const rules: Record<RateLimitName, RateLimitRule | null> = { ...DEFAULT_RATE_LIMITS }
+
+  if (process.env.RATE_LIMITS) {
+    try {
+      const parsed = JSON.parse(process.env.RATE_LIMITS)
+      for (const [name, rule] of Object.entries(parsed ?? {})) {
+        if (!(name in DEFAULT_RATE_LIMITS)) {
+          console.warn('Ignoring unknown RATE_LIMITS entry:', name)
+        } else if (rule === null) {
+          rules[name as RateLimitName] = null
+        } else if (
+          Number.isInteger((rule as RateLimitRule)?.limit) &&
+          (rule as RateLimitRule).limit > 0 &&
+          (rule as RateLimitRule).windowSeconds > 0
+        ) {
+          rules[name as RateLimitName] = rule as RateLimitRule
+        } else {
+          console.warn('Ignoring invalid RATE_LIMITS entry:', name)
+        }
+      }
+    } catch (error) {
+      console.error('RATE_LIMITS is not valid JSON:', error)
+    }
+  }
+
+  return rules
+}
+
+/**
+ * In-process counters; each server instance limits on its own
+ */
+function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { windowStart: number; windowMs: number; current: number; previous: number }>()
+
+  return {
+    async hit(key, windowMs, now) {
+      const windowStart = Math.floor(now / windowMs) * windowMs
+
+      if (windows.size > MEMORY_STORE_SWEEP_SIZE) {
+        for (const [staleKey, entry] of windows) {
+          if (entry.windowStart < now - 2 * entry.windowMs) windows.delete(staleKey)
+        }
+      }
+
+      const entry = windows.get(key)
+      if (entry && entry.windowStart === windowStart) {
+        entry.current++
+        return entry
+      }
+
+      const previous = entry && entry.windowStart === windowStart - windowMs ? entry.current : 0
+      const next = { windowStart, windowMs, current: 1, previous }
+      windows.set(key, next)
+      return next
+    },
+
+    async release(key, windowMs, now) {
+      const entry = windows.get(key)
+      if (entry && entry.windowStart === Math.floor(now / windowMs) * windowMs && entry.current > 0) {
+        entry.current--
+      }
+    },
+  }
+}
+
+/**
+ * Counters in the RateLimitBucket table, shared by every instance
+ */
+const postgresStore: RateLimitStore = {
+  async hit(key, windowMs, now) {
+    const windowStart = new Date(Math.floor(now / windowMs) * windowMs)
+
+    const [bucket, previousBucket] = await Promise.all([
+      prisma.rateLimitBucket.upsert({
+        where: { key_windowStart: { key, windowStart } },
+        create: { key, windowStart, count: 1, expiresAt: new Date(windowStart.getTime() + 2 * windowMs) },
+        update: { count: { increment: 1 } },
+      }),
+      prisma.rateLimitBucket.findUnique({
+        where: { key_windowStart: { key, windowStart: new Date(windowStart.getTime() - windowMs) } },
+      }),
+    ])
+
+    if (Math.random() < POSTGRES_CLEANUP_RATE) {
+      prisma.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: new Date(now) } } }).catch((error) => {
+        console.error('Failed to delete expired rate limit buckets:', error)
+      })
+    }
+
+    return { current: bucket.count, previous: previousBucket?.count ?? 0 }
+  },
+
+  async release(key, windowMs, now) {
+    await prisma.rateLimitBucket.updateMany({
+      where: { key, windowStart: new Date(Math.floor(now / windowMs) * windowMs), count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    })
+  },
+}
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitMemoryStore: RateLimitStore | undefined
+}
+
+/**
+ * RATE_LIMIT_STORE=postgres shares the counters between instances; the default, memory,
+ * suits a single instance
+ */
+function getRateLimitStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'postgres') {
+    return postgresStore
+  }
+  globalForRateLimit.rateLimitMemoryStore ??= createMemoryStore()
+  return globalForRateLimit.rateLimitMemoryStore
+}
+
+/**
+ * Evaluate one rule with the sliding window counter approximation: the previous window's
+ * count is weighted by how much of it still overlaps the sliding window
+ */
+function evaluate(rule: RateLimitRule, current: number, previous: number, now: number): RateLimitResult {
+  const windowMs = rule.windowSeconds * 1000
+  const elapsed = now - Math.floor(now / windowMs) * windowMs
+  const estimate = (previous * (windowMs - elapsed)) / windowMs + current
+  const allowed = estimate <= rule.limit
+
+  let waitMs = windowMs - elapsed
+  if (!allowed) {
+    // Earliest time one more request fits, still in this window when the previous count
+    // fades fast enough, otherwise in the next one where this window becomes the previous
+    const inThisWindow =
+      previous > 0 && current + 1 <= rule.limit
+        ? windowMs - elapsed - (windowMs * (rule.limit - current - 1)) / previous
+        : Infinity
+    waitMs =
+      inThisWindow < windowMs - elapsed
+        ? Math.max(0, inThisWindow)
+        : windowMs - elapsed + Math.max(0, windowMs * (1 - (rule.limit - 1) / current))
+  }
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - estimate)),
+    windowSeconds: rule.windowSeconds,
+    resetSeconds: Math.max(1, Math.ceil(waitMs / 1000)),
+  }
+}
+
+/**
+ * Count a request against several rules (e.g. per IP and per user) and return the most
+ * restrictive outcome. Only allowed requests count: a rejected one takes back its hits, so
+ * requests made in someone else's name can't keep their account blocked.
+ * The limiter fails open: a store error lets the request through.
+ */
+export async function checkRateLimits(checks: RateLimitCheck[]): Promise<RateLimitResult | null> {
+  const rules = getRateLimitRules()
+  const store = getRateLimitStore()
+  const now = Date.now()
+  const results: RateLimitResult[] = []
+  const hits: { key: string; windowMs: number }[] = []
+
+  for (const { name, subject } of checks) {
+    const rule = rules[name]
+    if (!rule || !subject) continue
+
+    const key = `${name}:${subject}`
+    const windowMs = rule.windowSeconds * 1000
+    try {
+      const { current, previous } = await store.hit(key, windowMs, now)
+      hits.push({ key, windowMs })
+      results.push(evaluate(rule, current, previous, now))
+    } catch (error) {
+      console.error('Rate limit check failed:', error)
+    }
+  }
+
+  if (results.length === 0) return null
+
+  const blocked = results.filter((result) => !result.allowed)
+  if (blocked.length > 0) {
+    await Promise.all(
+      hits.map(({ key, windowMs }) =>
+        store.release(key, windowMs, now).catch((error) => {
+          console.error('Failed to release rate limit hit:', error)
+        })
+      )
+    )
+    return blocked.sort((a, b) => b.resetSeconds - a.resetSeconds)[0]
+  }
+  return results.sort((a, b) => a.remaining / a.limit - b.remaining / b.limit)[0]
+}
+
+/**
+ * Number of reverse proxies in front of the app (TRUSTED_PROXY_COUNT, default 0), each of
+ * which appends the address it received the request from to X-Forwarded-For
+ */
+function getTrustedProxyCount(): number {
+  const value = Number(process.env.TRUSTED_PROXY_COUNT)
+  if (process.env.TRUSTED_PROXY_COUNT && !(Number.isInteger(value) && value >= 0)) {
+    console.warn(`Ignoring invalid TRUSTED_PROXY_COUNT: ${process.env.TRUSTED_PROXY_COUNT}`)
+  }
+  return Number.isInteger(value) && value >= 0 ? value : 0
+}
+
+/**
+ * Client address from the proxy headers. The client can send any X-Forwarded-For it likes, so
+ * only the entries added by our own proxies are trusted: the client is the one the outermost
+ * of them saw, TRUSTED_PROXY_COUNT entries from the right.
+ * @returns null without a trusted proxy, as the headers then come from the client itself
+ */
+export function getClientIp(request: Request): string | null {
+  const trustedProxies = getTrustedProxyCount()
+  if (trustedProxies === 0) return null
+
+  const forwardedFor = request.headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (forwardedFor && forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)]
+  }
+  return request.headers.get('x-real-ip')?.trim() || null
+}
+
+/**
+ * Subject of the per-account rules: the account together with the client address, so requests
+ * from elsewhere don't use up the account owner's allowance; the account alone when the
+ * address is unknown
+ */
+export function getAccountKey(request: Request, email: string): string {
+  const ip = getClientIp(request)
+  const account = email.trim().toLowerCase()
+  return ip ? `${ip}|${account}` : account
+}
+
+/**
+ * RateLimit-* headers (IETF draft) and Retry-After when blocked
+ */
+export function getRateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) return {}
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.resetSeconds)
+  }
+  return headers
+}
+
+/**
+ * 429 response for a blocked request
+ */
+export function rateLimitedResponse(result: RateLimitResult): Response {
+  return Response.json(
+    {
+      error: 'Too many requests. Please try again later.',
+      code: 'rate_limited',
+      retryAfter: result.resetSeconds,
+    },
+    { status: 429, headers: getRateLimitHeaders(result) }
+  )
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseResponseSections, validateResponseStructure } from './response-structure'
+
+const compliantAnswer = [
+  '**1. Résumé (2 lignes maximum)**',
+  'Un disjoncteur 32 A convient.',
+  '**2. Analyse technique**',
+  'Le courant d’emploi est de 27 A.',
+  '**Analyse des risques :** échauffement limité.',
+  '**3. Références normatives**',
+  'NF C 15-100.',
+  '**4. Logique / Schéma**',
+  'Calcul du courant, puis choix du calibre.',
+  '**5. Solutions / Recommandations**',
+  'Installer un disjoncteur courbe C 32 A.',
+  '**6. Points de vigilance**',
+  'Vérifier la chute de tension.',
+].join('\n')
+
+describe('validateResponseStructure', () => {
+  it('accepts a compliant answer without the optional short version', () => {
+    assert.deepEqual(validateResponseStructure(compliantAnswer), {
+      score: 1,
+      missing: [],
+      outOfOrder: [],
+      duplicated: [],
+    })
+  })
+
+  it('accepts a compliant answer without any optional section', () => {
+    const answer = compliantAnswer.replace('**4. Logique / Schéma**\nCalcul du courant, puis choix du calibre.\n', '')
+    const validation = validateResponseStructure(answer)
+    assert.equal(validation.score, 1)
+    assert.deepEqual(validation.missing, [])
+  })
+
+  it('reports missing required sections', () => {
+    const answer = compliantAnswer.replace('**3. Références normatives**\nNF C 15-100.\n', '')
+    const validation = validateResponseStructure(answer)
+    assert.deepEqual(validation.missing, ['references'])
+    assert.ok(validation.score < 1)
+  })
+
+  it('penalizes repeated sections', () => {
+    const validation = validateResponseStructure(`${compliantAnswer}\n**2. Analyse technique**\nEncore.`)
+    assert.deepEqual(validation.duplicated, ['analysis'])
+    assert.ok(validation.score < 1)
+  })
+})
+
+describe('parseResponseSections', () => {
+  it('keeps bold body labels inside their section', () => {
+    const analysis = parseResponseSections(compliantAnswer).sections.find((section) => section.key === 'analysis')
+    assert.match(analysis?.content ?? '', /Analyse des risques/)
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * Parsing and validation of the mandatory 7-section answer structure.
+ * Pure functions with no server dependencies, shared by the API and the UI.
+ */
+
+export type SectionKey =
+  | 'summary'
+  | 'analysis'
+  | 'references'
+  | 'logic'
+  | 'solutions'
+  | 'caveats'
+  | 'short'
+
+export interface SectionDefinition {
+  key: SectionKey
+  number: number
+  title: string
+  keywords: string[] // Normalized prefixes a heading must start with
+  optional?: boolean // The prompt asks for it only when relevant; an answer without it isn't penalized
+}
+
+// Sections in the order the system prompt requires them
+export const RESPONSE_SECTIONS: SectionDefinition[] = [
+  { key: 'summary', number: 1, title: 'Résumé', keywords: ['resume', 'synthese'] },
+  { key: 'analysis', number: 2, title: 'Analyse technique', keywords: ['analyse technique', 'analyse'] },
+  { key: 'references', number: 3, title: 'Références normatives', keywords: ['references normatives', 'references'] },
+  { key: 'logic', number: 4, title: 'Logique / Schéma', keywords: ['logique', 'schema'], optional: true },
+  { key: 'solutions', number: 5, title: 'Solutions / Recommandations', keywords: ['solutions', 'recommandations'] },
+  { key: 'caveats', number: 6, title: 'Points de vigilance', keywords: ['points de vigilance', 'vigilance'] },
+  { key: 'short', number: 7, title: 'Version courte', keywords: ['version courte'], optional: true },
+]
+
+export interface ParsedSection {
+  key: SectionKey
+  heading: string // Heading text as written by the model
+  content: string // Markdown body, without the heading
+}
+
+export interface ParsedResponse {
+  preamble: string // Text before the first recognized heading
+  sections: ParsedSection[] // In order of appearance
+}
+
+// Section contents keyed by section, null when the answer lacks the section
+export type StructuredResponse = Record<SectionKey, string | null>
+
+export interface StructureValidation {
+  score: number // 0..1, share of sections present and in order (out-of-order sections count half, each repeat costs half); absent optional sections don't count
+  missing: SectionKey[] // Required sections only
+  outOfOrder: SectionKey[]
+  duplicated: SectionKey[]
+}
+
+// Longest lines we still consider headings; longer bold lines are body text
+const MAX_HEADING_LENGTH = 80
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+}
+
+/**
+ * Recognize a section heading such as "**1. Résumé (2 lignes maximum)**", "### 2. Analyse technique"
+ * or "**3. Références normatives** : ..." (heading followed by text on the same line).
+ * An unnumbered bold line only counts when it is the section title itself, so body labels such as
+ * "**Analyse des risques :** ..." stay in their section.
+ */
+function matchHeading(line: string): { key: SectionKey; heading: string; rest: string } | null {
+  const trimmed = line.trim()
+  if (!trimmed) return null
+
+  let heading = trimmed
+  let rest = ''
+  const marked = /^#{1,6}\s/.test(trimmed)
+
+  // Bold heading with text after it on the same line
+  const bold = trimmed.match(/^(?:#{1,6}\s*)?(\d\s*[.)]\s*)?\*\*(.+?)\*\*\s*[:\-–—]?\s*(.*)$/)
+  if (bold) {
+    heading = bold[2]
+    rest = bold[3]
+    // "**7. Version courte** (si pertinent)" keeps the parenthesis in the heading
+    if (/^\(.*\)$/.test(rest)) {
+      heading = `${heading} ${rest}`
+      rest = ''
+    }
+  } else if (marked) {
+    heading = trimmed.replace(/^#{1,6}\s*/, '')
+  } else if (!/^\d\s*[.)]\s/.test(trimmed)) {
+    // Plain lines only count when numbered like the prompt's headings
+    return null
+  }
+
+  if (heading.length > MAX_HEADING_LENGTH) return null
+
+  const text = heading.replace(/[*_#`]/g, '').trim()
+  const number = bold ? (bold[1] ?? text).match(/^(\d)\s*[.)]/)?.[1] : trimmed.match(/^(\d)/)?.[1]
+  const label = normalize(text.replace(/^\d\s*[.)]\s*/, ''))
+  const section = RESPONSE_SECTIONS.find((candidate) =>
+    candidate.keywords.some((keyword) => label.startsWith(keyword))
+  )
+  if (!section) return null
+
+  if (number !== undefined) {
+    // A numbered line must carry the section's number, to avoid matching list items
+    if (number !== String(section.number)) return null
+  } else if (!marked && !isSectionTitle(label, section)) {
+    // Unnumbered bold lines are body labels unless they are exactly the section title
+    return null
+  }
+
+  return { key: section.key, heading: heading.replace(/\*\*/g, '').trim(), rest: rest.trim() }
+}
+
+// "Résumé", "Résumé :" or "Logique / Schéma (optionnel)": the title, or one of its alternatives
+function isSectionTitle(label: string, section: SectionDefinition): boolean {
+  const bare = label.replace(/\s*\(.*\)$/, '').replace(/\s*:$/, '').trim()
+  const title = normalize(section.title)
+  return bare === title || title.split('/').some((part) => part.trim() === bare)
+}
+
+/**
+ * Split an answer into its sections. Text outside fenced code blocks is scanned for headings.
+ */
+export function parseResponseSections(text: string): ParsedResponse {
+  const preamble: string[] = []
+  const sections: { key: SectionKey; heading: string; lines: string[] }[] = []
+  let inCodeFence = false
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence
+    }
+
+    const match = inCodeFence ? null : matchHeading(line)
+    if (match) {
+      sections.push({ key: match.key, heading: match.heading, lines: match.rest ? [match.rest] : [] })
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line)
+    } else {
+      preamble.push(line)
+    }
+  }
+
+  return {
+    preamble: preamble.join('\n').trim(),
+    sections: sections.map((section) => ({
+      key: section.key,
+      heading: section.heading,
+      content: section.lines.join('\n').trim(),
+    })),
+  }
+}
+
+/**
+ * Check an answer against the required structure
+ */
+export function validateResponseStructure(text: string): StructureValidation {
+  const { sections } = parseResponseSections(text)
+
+  // Keep the first occurrence of each section
+  const seen = new Set<SectionKey>()
+  const duplicated = new Set<SectionKey>()
+  const order: number[] = []
+  let repeats = 0
+  for (const section of sections) {
+    if (seen.has(section.key)) {
+      duplicated.add(section.key)
+      repeats++
+      continue
+    }
+    seen.add(section.key)
+    order.push(RESPONSE_SECTIONS.findIndex((definition) => definition.key === section.key))
+  }
+
+  // Sections outside the longest in-order run are out of order
+  const inOrder = new Set(longestIncreasingSubsequence(order))
+  const outOfOrder = order
+    .filter((index) => !inOrder.has(index))
+    .map((index) => RESPONSE_SECTIONS[index].key)
+
+  const missing = RESPONSE_SECTIONS.filter((section) => !section.optional && !seen.has(section.key)).map(
+    (section) => section.key
+  )
+
+  // Optional sections count only when the answer has them
+  const expected = RESPONSE_SECTIONS.filter((section) => !section.optional || seen.has(section.key)).length
+  const points = Math.max(0, seen.size - outOfOrder.length * 0.5 - repeats * 0.5)
+  const score = Math.round((points / expected) * 100) / 100
+
+  return { score, missing, outOfOrder, duplicated: Array.from(duplicated) }
+}
+
+/**
+ * Merge repeated sections into their first occurrence, so each key appears at most once.
+ * Sections keep their order of appearance.
+ */
+export function mergeResponseSections(sections: ParsedSection[]): ParsedSection[] {
+  const merged = new Map<SectionKey, ParsedSection>()
+  for (const section of sections) {
+    const existing = merged.get(section.key)
+    if (existing) {
+      existing.content = [existing.content, section.content].filter(Boolean).join('\n\n')
+    } else {
+      merged.set(section.key, { ...section })
+    }
+  }
+  return Array.from(merged.values())
+}
+
+/**
+ * Sections of an answer as stored in the MessageSection table
+ */
+export function getSectionRecords(
+  text: string
+): { key: SectionKey; position: number; heading: string; content: string }[] {
+  return mergeResponseSections(parseResponseSections(text).sections).map((section, position) => ({
+    ...section,
+    position,
+  }))
+}
+
+/**
+ * Build the `{summary, analysis, ...}` view of an answer from its stored sections
+ */
+export function toStructuredResponse(
+  sections: { key: string; content: string }[]
+): StructuredResponse {
+  const structured = Object.fromEntries(
+    RESPONSE_SECTIONS.map((section) => [section.key, null])
+  ) as StructuredResponse
+  for (const section of sections) {
+    if (section.key in structured && structured[section.key as SectionKey] === null) {
+      structured[section.key as SectionKey] = section.content
+    }
+  }
+  return structured
+}
+
+/**
+ * Check whether a string is a known section key
+ */
+export function isSectionKey(value: unknown): value is SectionKey {
+  return RESPONSE_SECTIONS.some((section) => section.key === value)
+}
+
+/**
+ * Look up the definition of a section by key
+ */
+export function getSectionDefinition(key: SectionKey): SectionDefinition {
+  return RESPONSE_SECTIONS.find((section) => section.key === key) as SectionDefinition
+}
+
+function longestIncreasingSubsequence(values: number[]): number[] {
+  const lengths = values.map(() => 1)
+  const previous = values.map(() => -1)
+
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1
+        previous[i] = j
+      }
+    }
+  }
+
+  let end = lengths.indexOf(Math.max(0, ...lengths))
+  const result: number[] = []
+  while (end !== -1) {
+    result.unshift(values[end])
+    end = previous[end]
+  }
+  return result
+}
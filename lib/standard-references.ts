@@ -0,0 +1,102 @@
+/**
+ * Extraction of normative references (ISO, IEC, EN, NF, DTU) from answer text.
+ * Pure functions with no server dependencies, shared by the API and the UI.
+ */
+
+import { parseResponseSections } from './response-structure'
+
+export type ReferenceStatus = 'known' | 'unknown' | 'withdrawn'
+
+export interface StandardReference {
+  code: string // As cited, e.g. "NF C 15-100"
+  key: string // Normalized for matching, with the cited edition, e.g. "NFC15-100" or "ISO9001:2015"
+  edition: string | null // Year given after the number, e.g. "2015" for "ISO 9001:2015"
+}
+
+export interface CheckedReference extends StandardReference {
+  status: ReferenceStatus
+  // The registered edition the citation was checked against: the cited one when registered,
+  // otherwise the current one
+  standard: {
+    code: string
+    title: string
+    edition: string | null
+    status: 'current' | 'withdrawn'
+    replacedBy: string | null
+  } | null
+}
+
+// Bodies whose identifiers are recognized; they combine as "NF EN ISO", "ISO/IEC", "NF DTU"...
+export const STANDARD_BODIES = ['ISO', 'IEC', 'EN', 'NF', 'DTU']
+
+// Body prefixes, an optional class letter (the "C" of "NF C 15-100"), the number with its parts,
+// and an optional ":year" edition
+const REFERENCE_PATTERN =
+  /\b((?:(?:ISO|IEC|EN|NF|DTU)(?:\s*\/\s*|\s+)){1,4}(?:[A-Z]\s?(?=\d))?\d+(?:[.-]\d+)*)(?:\s*:\s*((?:19|20)\d{2}))?/g
+
+/**
+ * Normalize a standard code for matching: uppercase, without spaces, slashes or edition
+ * ("NF C 15-100" and "NF C15-100" both give "NFC15-100")
+ */
+export function normalizeStandardKey(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[\s/]+/g, '')
+    .replace(/:\d{4}$/, '')
+}
+
+/**
+ * Year of an edition, e.g. "2002" for "2002/A1:2008"
+ */
+export function getEditionYear(edition: string | null | undefined): string | null {
+  return edition?.match(/(?:19|20)\d{2}/)?.[0] ?? null
+}
+
+/**
+ * Key of one edition of a standard: the normalized code, with the edition year when there is
+ * one ("ISO 9001" edition "2015" gives "ISO9001:2015")
+ */
+export function getStandardKey(code: string, edition: string | null): string {
+  const year = getEditionYear(edition)
+  return year ? `${normalizeStandardKey(code)}:${year}` : normalizeStandardKey(code)
+}
+
+/**
+ * Keys a cited code may be registered under: national and European adoptions carry the
+ * original number, so "NF EN ISO 13849-1" also matches "EN ISO 13849-1" and "ISO 13849-1"
+ */
+export function getStandardKeyVariants(key: string): string[] {
+  const variants = [key]
+  const withoutNational = key.replace(/^NF(?=EN|ISO|IEC|DTU)/, '')
+  const withoutEuropean = withoutNational.replace(/^EN(?=ISO|IEC)/, '')
+  for (const variant of [withoutNational, withoutEuropean]) {
+    if (!variants.includes(variant)) variants.push(variant)
+  }
+  return variants
+}
+
+/**
+ * Find the standard identifiers cited in a text, once per edition, in order of appearance
+ */
+export function extractStandardReferences(text: string): StandardReference[] {
+  const references = new Map<string, StandardReference>()
+
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const code = match[1].replace(/\s+/g, ' ').replace(/\s*\/\s*/g, '/').trim()
+    const edition = match[2] ?? null
+    const key = getStandardKey(code, edition)
+    if (!references.has(key)) {
+      references.set(key, { code: edition ? `${code}:${edition}` : code, key, edition })
+    }
+  }
+
+  return [...references.values()]
+}
+
+/**
+ * Text of the "Références normatives" section of an answer, or null when it has none
+ */
+export function getReferencesSectionText(answer: string): string | null {
+  const sections = parseResponseSections(answer).sections.filter((section) => section.key === 'references')
+  return sections.length > 0 ? sections.map((section) => section.content).join('\n\n') : null
+}
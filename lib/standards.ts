@@ -0,0 +1,249 @@
+import { prisma } from './prisma'
+import {
+  extractStandardReferences,
+  getEditionYear,
+  getReferencesSectionText,
+  getStandardKey,
+  getStandardKeyVariants,
+  normalizeStandardKey,
+  type CheckedReference,
+} from './standard-references'
+
+export type StandardStatus = 'current' | 'withdrawn'
+
+export interface StandardInput {
+  code: string
+  title: string
+  edition: string | null
+  status: StandardStatus
+  replacedBy: string | null
+}
+
+export interface CsvImportError {
+  line: number
+  error: string
+}
+
+// Accepted header names for each column, as normalized by normalizeLabel
+const CSV_COLUMNS: Record<keyof StandardInput, string[]> = {
+  code: ['code', 'reference', 'standard', 'norme'],
+  title: ['title', 'titre'],
+  edition: ['edition', 'version'],
+  status: ['status', 'statut'],
+  replacedBy: ['replacedby', 'remplaceepar', 'remplacepar'],
+}
+
+// Accepted status values, as normalized by normalizeLabel
+const WITHDRAWN_VALUES = ['withdrawn', 'annulee', 'annule', 'retiree', 'obsolete']
+const CURRENT_VALUES = ['', 'current', 'active', 'envigueur', 'homologuee']
+
+/**
+ * Lowercase without accents or separators, so "Remplacée par" matches "remplaceepar"
+ */
+function normalizeLabel(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '')
+}
+
+/**
+ * Split CSV text into rows, with quoted fields ("..." with "" for a quote) spanning lines
+ */
+function parseCsvRows(text: string, separator: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Parse a standards CSV export. The header row names the columns (code, title, edition, status,
+ * replacedBy, or their French equivalents); commas or semicolons separate fields.
+ * @returns Valid rows, and the errors of rejected lines
+ */
+export function parseStandardsCsv(text: string): { data: StandardInput[]; errors: CsvImportError[] } {
+  const content = text.replace(/^\uFEFF/, '') // Excel adds a byte order mark
+  const firstLine = content.slice(0, content.search(/\r?\n|$/))
+  const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+  const [header = [], ...rows] = parseCsvRows(content, separator)
+
+  const headers = header.map(normalizeLabel)
+  const columnIndex = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([column, names]) => [
+      column,
+      headers.findIndex((name) => names.includes(name)),
+    ])
+  ) as Record<keyof StandardInput, number>
+
+  if (columnIndex.code < 0 || columnIndex.title < 0) {
+    return { data: [], errors: [{ line: 1, error: 'The header must contain "code" and "title" columns' }] }
+  }
+
+  const data: StandardInput[] = []
+  const errors: CsvImportError[] = []
+  const read = (row: string[], column: keyof StandardInput) =>
+    columnIndex[column] >= 0 ? (row[columnIndex[column]] ?? '').trim() : ''
+
+  rows.forEach((row, index) => {
+    const line = index + 2
+    if (row.every((field) => !field.trim())) return
+
+    // "ISO 9001:2008" carries its edition
+    const [, code = '', codeEdition] = read(row, 'code').replace(/\s+/g, ' ').match(/^(.*?)(?:\s*:\s*((?:19|20)\d{2}))?$/) ?? []
+    const title = read(row, 'title')
+    const status = normalizeLabel(read(row, 'status'))
+
+    if (!code || !title) {
+      errors.push({ line, error: 'code and title are required' })
+      return
+    }
+    if (!WITHDRAWN_VALUES.includes(status) && !CURRENT_VALUES.includes(status)) {
+      errors.push({ line, error: `Unknown status "${status}"; use "current" or "withdrawn"` })
+      return
+    }
+
+    data.push({
+      code,
+      title,
+      edition: read(row, 'edition') || codeEdition || null,
+      status: WITHDRAWN_VALUES.includes(status) ? 'withdrawn' : 'current',
+      replacedBy: read(row, 'replacedBy') || null,
+    })
+  })
+
+  return { data, errors }
+}
+
+/**
+ * Insert or update standards, matched by normalized code and edition year, so each edition of
+ * a standard is a row of its own
+ * @returns Number of created and updated standards
+ */
+export async function importStandards(standards: StandardInput[]): Promise<{ created: number; updated: number }> {
+  const byKey = new Map(standards.map((standard) => [getStandardKey(standard.code, standard.edition), standard]))
+  const existing = await prisma.standard.findMany({
+    where: { key: { in: [...byKey.keys()] } },
+    select: { key: true },
+  })
+  const existingKeys = new Set(existing.map((standard) => standard.key))
+
+  await prisma.$transaction(
+    [...byKey.entries()].map(([key, standard]) =>
+      prisma.standard.upsert({
+        where: { key },
+        create: { key, ...standard },
+        update: standard,
+      })
+    )
+  )
+
+  return {
+    created: byKey.size - existingKeys.size,
+    updated: existingKeys.size,
+  }
+}
+
+/**
+ * Check the standards cited in a text against the registry. A citation with an edition is
+ * checked against that edition, and flagged as withdrawn when the edition is withdrawn or
+ * isn't the current one; without an edition, the current one is assumed.
+ * @param text - Usually the "Références normatives" section of an answer
+ */
+export async function checkStandardReferences(text: string): Promise<(CheckedReference & { standardId: string | null })[]> {
+  const references = extractStandardReferences(text)
+  if (references.length === 0) return []
+
+  // Every registered edition of the cited codes, under any of their adoption variants
+  const codeKeys = [...new Set(references.flatMap((reference) => getStandardKeyVariants(normalizeStandardKey(reference.code))))]
+  const standards = await prisma.standard.findMany({
+    where: { OR: codeKeys.flatMap((key) => [{ key }, { key: { startsWith: `${key}:` } }]) },
+  })
+
+  return references.map((reference) => {
+    const editions = getStandardKeyVariants(normalizeStandardKey(reference.code))
+      .map((codeKey) => standards.filter((standard) => standard.key.split(':')[0] === codeKey))
+      .find((variantEditions) => variantEditions.length > 0) ?? []
+
+    // Latest current edition first
+    const current = editions
+      .filter((standard) => standard.status !== 'withdrawn')
+      .sort((a, b) => (getEditionYear(b.edition) ?? '').localeCompare(getEditionYear(a.edition) ?? ''))[0]
+    const cited = reference.edition
+      ? editions.find((standard) => getEditionYear(standard.edition) === reference.edition)
+      : undefined
+    const standard = cited ?? current ?? editions[0]
+
+    // A cited edition other than the current one is outdated, unless the registry doesn't say
+    // which edition is current
+    const outdated =
+      !cited && Boolean(reference.edition) && Boolean(current?.edition) && getEditionYear(current?.edition) !== reference.edition
+    const status = !standard ? 'unknown' : standard.status === 'withdrawn' || outdated ? 'withdrawn' : 'known'
+
+    return {
+      ...reference,
+      status,
+      standardId: standard?.id ?? null,
+      standard: standard
+        ? {
+            code: standard.code,
+            title: standard.title,
+            edition: standard.edition,
+            status: standard.status === 'withdrawn' ? 'withdrawn' : 'current',
+            // A withdrawn edition is replaced by the current one, unless the registry says otherwise
+            replacedBy:
+              standard.replacedBy ??
+              (standard.status === 'withdrawn' && current
+                ? `${current.code}${current.edition ? `:${current.edition}` : ''}`
+                : null),
+          }
+        : null,
+    }
+  })
+}
+
+/**
+ * MessageReference records for an answer's "Références normatives" section.
+ * Nothing is recorded while the registry is empty, so answers aren't all counted as unknown.
+ */
+export async function getReferenceRecords(answer: string) {
+  const sectionText = getReferencesSectionText(answer)
+  if (!sectionText || (await prisma.standard.count()) === 0) return []
+
+  const references = await checkStandardReferences(sectionText)
+  return references.map(({ code, key, status, standardId }) => ({ code, key, status, standardId }))
+}
@@ -0,0 +1,155 @@
+// Chat generations in flight, buffered in memory so a client that reloads or loses the network
+// can replay the answer so far and follow the rest. Generations outlive the request that
+// started them; only the stop button aborts one. Each server instance keeps its own buffers,
+// so resuming needs the client to reach the instance that generates (sticky sessions).
+
+interface Generation {
+  conversationId: string
+  messageId: string // Id of the assistant message being generated
+  userId: string
+  events: string[] // Server-sent events streamed so far
+  done: boolean
+  startedAt: number
+  listeners: Set<() => void>
+  abortController: AbortController
+}
+
+// Finished generations stay replayable for a while, for clients that loaded the conversation
+// before the answer was saved and ask to resume after
+const FINISHED_RETENTION_MS = 30_000
+
+const globalForGenerations = globalThis as unknown as {
+  chatGenerations: Map<string, Generation> | undefined
+}
+
+function getGenerations(): Map<string, Generation> {
+  globalForGenerations.chatGenerations ??= new Map()
+  return globalForGenerations.chatGenerations
+}
+
+function notify(generation: Generation) {
+  for (const listener of generation.listeners) listener()
+}
+
+/**
+ * Register a generation before it starts
+ * @returns The signal that aborts it
+ */
+export function registerGeneration({
+  conversationId,
+  messageId,
+  userId,
+}: {
+  conversationId: string
+  messageId: string
+  userId: string
+}): AbortSignal {
+  const generation: Generation = {
+    conversationId,
+    messageId,
+    userId,
+    events: [],
+    done: false,
+    startedAt: Date.now(),
+    listeners: new Set(),
+    abortController: new AbortController(),
+  }
+  getGenerations().set(`${conversationId}:${messageId}`, generation)
+  return generation.abortController.signal
+}
+
+/**
+ * Abort and forget a registered generation whose request failed before its stream was buffered,
+ * so it isn't replayed
+ */
+export function discardGeneration(conversationId: string, messageId: string): void {
+  const key = `${conversationId}:${messageId}`
+  const generation = getGenerations().get(key)
+  if (!generation) return
+  getGenerations().delete(key)
+  generation.abortController.abort()
+  generation.done = true
+  notify(generation)
+}
+
+/**
+ * Buffer the server-sent events of a registered generation, reading them to the end whether
+ * or not the client that started it is still there
+ */
+export async function bufferGeneration(
+  conversationId: string,
+  messageId: string,
+  stream: ReadableStream<string>
+): Promise<void> {
+  const key = `${conversationId}:${messageId}`
+  const generation = getGenerations().get(key)
+  if (!generation) return
+
+  const reader = stream.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      generation.events.push(value)
+      notify(generation)
+    }
+  } catch (error) {
+    console.error('Failed to buffer chat stream:', error)
+  } finally {
+    generation.done = true
+    notify(generation)
+    setTimeout(() => {
+      if (getGenerations().get(key) === generation) getGenerations().delete(key)
+    }, FINISHED_RETENTION_MS)
+  }
+}
+
+/**
+ * Latest generation of a conversation, running or recently finished
+ */
+export function findGeneration(conversationId: string, userId: string): Generation | null {
+  let latest: Generation | null = null
+  for (const generation of getGenerations().values()) {
+    if (generation.conversationId !== conversationId || generation.userId !== userId) continue
+    if (!latest || generation.startedAt > latest.startedAt) latest = generation
+  }
+  return latest
+}
+
+/**
+ * Stream of a generation from its first event, following it until it ends
+ */
+export function replayGeneration(generation: Generation): ReadableStream<string> {
+  let sent = 0
+  let listener: (() => void) | null = null
+
+  return new ReadableStream<string>({
+    start(controller) {
+      listener = () => {
+        while (sent < generation.events.length) {
+          controller.enqueue(generation.events[sent++])
+        }
+        if (generation.done) {
+          generation.listeners.delete(listener!)
+          controller.close()
+        }
+      }
+      generation.listeners.add(listener)
+      listener()
+    },
+    cancel() {
+      if (listener) generation.listeners.delete(listener)
+    },
+  })
+}
+
+/**
+ * Abort the running generation of a conversation; it saves what was written as "aborted"
+ * @returns false when nothing was running
+ */
+export function abortGeneration(conversationId: string, userId: string): boolean {
+  const generation = findGeneration(conversationId, userId)
+  if (!generation || generation.done) return false
+  generation.abortController.abort()
+  return true
+}
@@ -0,0 +1,127 @@
+import { generateText } from 'ai'
+import { prisma } from './prisma'
+import type { ResolvedModel } from './llm-providers'
+import {
+  getSectionDefinition,
+  getSectionRecords,
+  RESPONSE_SECTIONS,
+  validateResponseStructure,
+  type StructureValidation,
+} from './response-structure'
+import { getReferenceRecords } from './standards'
+import { recordUsage, type UsageContext } from './usage'
+
+/**
+ * Automatic repair is opt-in: RESPONSE_REPAIR=true enables it, RESPONSE_REPAIR_THRESHOLD sets
+ * the compliance score under which an answer is repaired (default 1, i.e. any issue)
+ */
+function getRepairSettings() {
+  const threshold = Number(process.env.RESPONSE_REPAIR_THRESHOLD)
+  return {
+    enabled: process.env.RESPONSE_REPAIR === 'true',
+    threshold: Number.isFinite(threshold) ? threshold : 1,
+  }
+}
+
+function describeIssues(validation: StructureValidation): string {
+  const issues: string[] = []
+  if (validation.missing.length > 0) {
+    issues.push(`Sections manquantes : ${validation.missing.map((key) => getSectionDefinition(key).title).join(', ')}`)
+  }
+  if (validation.outOfOrder.length > 0) {
+    issues.push(`Sections dans le désordre : ${validation.outOfOrder.map((key) => getSectionDefinition(key).title).join(', ')}`)
+  }
+  if (validation.duplicated.length > 0) {
+    issues.push(`Sections en double : ${validation.duplicated.map((key) => getSectionDefinition(key).title).join(', ')}`)
+  }
+  return issues.join('\n')
+}
+
+/**
+ * Ask the model to rewrite an answer into the required structure, keeping its content
+ * @returns The repaired text, or null if the rewrite isn't better than the original
+ */
+async function repairResponseStructure(
+  model: ResolvedModel,
+  text: string,
+  validation: StructureValidation,
+  usage: UsageContext & { modelId: string }
+): Promise<{ text: string; validation: StructureValidation } | null> {
+  const headings = RESPONSE_SECTIONS.map(
+    (section) => `**${section.number}. ${section.title}**${section.optional ? ' (si pertinent)' : ''}`
+  ).join('\n')
+
+  const startedAt = Date.now()
+  const { text: repairedText, totalUsage } = await generateText({
+    model,
+    system: `Tu remets en forme des réponses techniques. Réécris la réponse fournie pour qu'elle contienne exactement ces sections, dans cet ordre, avec ces titres :
+
+${headings}
+
+Conserve tout le contenu technique existant, déplace-le dans la bonne section, et complète brièvement les sections manquantes à partir des informations disponibles ; les sections marquées (si pertinent) peuvent être omises. Ne réponds qu'avec la réponse réécrite.`,
+    prompt: `Problèmes détectés :\n${describeIssues(validation)}\n\nRéponse à réécrire :\n\n${text}`,
+  })
+  await recordUsage({ ...usage, kind: 'repair', usage: totalUsage, startedAt })
+
+  const repairedValidation = validateResponseStructure(repairedText)
+  if (repairedValidation.score <= validation.score) {
+    return null
+  }
+
+  return { text: repairedText, validation: repairedValidation }
+}
+
+/**
+ * Validate a saved assistant message and, when enabled, repair it in the background.
+ * The streamed answer stays as shown; the stored message is replaced by the repaired one.
+ * @param messageId - The saved assistant message
+ * @param model - Model used for the repair pass
+ * @param text - The message content
+ * @param validation - Validation of the original content
+ * @param usage - Who the repair call is accounted to, and the model id behind `model`
+ */
+export async function repairMessageIfNeeded(
+  messageId: string,
+  model: ResolvedModel,
+  text: string,
+  validation: StructureValidation,
+  usage: UsageContext & { modelId: string }
+): Promise<void> {
+  const settings = getRepairSettings()
+  if (!settings.enabled || validation.score >= settings.threshold || !text.trim()) {
+    return
+  }
+
+  try {
+    const repaired = await repairResponseStructure(model, text, validation, usage)
+    if (!repaired) {
+      return
+    }
+
+    const referenceRecords = await getReferenceRecords(repaired.text)
+
+    await prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content: repaired.text,
+        structureScore: repaired.validation.score,
+        structureIssues: {
+          missing: repaired.validation.missing,
+          outOfOrder: repaired.validation.outOfOrder,
+          duplicated: repaired.validation.duplicated,
+        },
+        repaired: true,
+        sections: {
+          deleteMany: {},
+          create: getSectionRecords(repaired.text),
+        },
+        standardReferences: {
+          deleteMany: {},
+          create: referenceRecords,
+        },
+      },
+    })
+  } catch (error) {
+    console.error('Failed to repair response structure:', error)
+  }
+}
@@ -0,0 +1,226 @@
+import type { LanguageModelUsage } from 'ai'
+import { prisma } from './prisma'
+
+export type UsageKind = 'chat' | 'repair' | 'title' | 'embedding'
+
+// Model of the records reserveQuota creates before a chat answer is generated; they carry no
+// usage until the answer ends, so summaries leave them out
+export const RESERVED_USAGE_MODEL = 'pending'
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export interface UsageContext {
+  userId: string | null
+  conversationId: string | null
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+  unpricedCalls: number // Calls whose model has no price, left out of cost
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  byModel: ({ model: string } & UsageTotals)[]
+  byDay: ({ day: string } & UsageTotals)[] // "YYYY-MM-DD" in UTC, oldest first
+}
+
+/**
+ * List prices of the default OpenAI models, by model name so they apply whatever the provider id
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  return (
+    !!value &&
+    typeof (value as ModelPrice).input === 'number' &&
+    typeof (value as ModelPrice).output === 'number'
+  )
+}
+
+/**
+ * Price table: the defaults, overridden by MODEL_PRICES, a JSON object keyed by model id,
+ * model name or "<provider>:*", e.g. {"azure:gpt-4o":{"input":2.75,"output":11},"local:*":{"input":0,"output":0}}
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_MODEL_PRICES }
+
+  if (process.env.MODEL_PRICES) {
+    try {
+      const parsed = JSON.parse(process.env.MODEL_PRICES)
+      for (const [key, price] of Object.entries(parsed ?? {})) {
+        if (isModelPrice(price)) {
+          prices[key] = price
+        } else {
+          console.warn('Ignoring invalid MODEL_PRICES entry:', key)
+        }
+      }
+    } catch (error) {
+      console.error('MODEL_PRICES is not valid JSON:', error)
+    }
+  }
+
+  return prices
+}
+
+/**
+ * Price of a model: exact model id first, then model name, then the provider wildcard
+ */
+export function getModelPrice(modelId: string, prices = getModelPrices()): ModelPrice | null {
+  const separator = modelId.indexOf(':')
+  const provider = separator >= 0 ? modelId.slice(0, separator) : null
+  const modelName = separator >= 0 ? modelId.slice(separator + 1) : modelId
+
+  return prices[modelId] ?? prices[modelName] ?? (provider ? prices[`${provider}:*`] : undefined) ?? null
+}
+
+/**
+ * Cost of a call in USD, or null when the model has no price
+ */
+export function computeCost(modelId: string, promptTokens: number, completionTokens: number): number | null {
+  const price = getModelPrice(modelId)
+  if (!price) return null
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+/**
+ * Record the usage of a model call. Failures are logged, never thrown, so accounting
+ * can't break an answer.
+ * @param startedAt - Date.now() when the call was made, for the latency
+ * @param reservationId - Record reserved for the call by reserveQuota, completed instead of adding one
+ */
+export async function recordUsage({
+  userId,
+  conversationId,
+  kind,
+  modelId,
+  usage,
+  startedAt,
+  imageRequest = false,
+  reservationId = null,
+}: UsageContext & {
+  kind: UsageKind
+  modelId: string
+  usage: LanguageModelUsage
+  startedAt: number
+  imageRequest?: boolean
+  reservationId?: string | null
+}): Promise<void> {
+  const promptTokens = usage.inputTokens ?? 0
+  const completionTokens = usage.outputTokens ?? 0
+
+  const data = {
+    userId,
+    conversationId,
+    kind,
+    model: modelId,
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+    cost: computeCost(modelId, promptTokens, completionTokens),
+    latencyMs: Math.max(0, Math.round(Date.now() - startedAt)),
+    imageRequest,
+  }
+
+  try {
+    if (reservationId) {
+      await prisma.usageRecord.upsert({ where: { id: reservationId }, update: data, create: data })
+    } else {
+      await prisma.usageRecord.create({ data })
+    }
+  } catch (error) {
+    console.error('Failed to record usage:', error)
+  }
+}
+
+/**
+ * Usage of several calls together, e.g. the finished steps of an aborted answer
+ */
+export function sumUsage(usages: LanguageModelUsage[]): LanguageModelUsage {
+  return usages.reduce<LanguageModelUsage>(
+    (total, usage) => ({
+      inputTokens: (total.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+      outputTokens: (total.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+      totalTokens: (total.totalTokens ?? 0) + (usage.totalTokens ?? 0),
+    }),
+    { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  )
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 }
+}
+
+function addRecord(
+  totals: UsageTotals,
+  record: { promptTokens: number; completionTokens: number; totalTokens: number; cost: number | null }
+) {
+  totals.calls++
+  totals.promptTokens += record.promptTokens
+  totals.completionTokens += record.completionTokens
+  totals.totalTokens += record.totalTokens
+  if (record.cost === null) {
+    totals.unpricedCalls++
+  } else {
+    totals.cost += record.cost
+  }
+}
+
+/**
+ * Usage totals since a date, overall, per model and per day
+ * @param userId - Restrict to one user; all users when omitted
+ */
+export async function getUsageSummary({ userId, since }: { userId?: string; since: Date }): Promise<UsageSummary> {
+  const records = await prisma.usageRecord.findMany({
+    where: { createdAt: { gte: since }, model: { not: RESERVED_USAGE_MODEL }, ...(userId ? { userId } : {}) },
+    select: {
+      model: true,
+      promptTokens: true,
+      completionTokens: true,
+      totalTokens: true,
+      cost: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const totals = emptyTotals()
+  const byModel = new Map<string, { model: string } & UsageTotals>()
+  const byDay = new Map<string, { day: string } & UsageTotals>()
+
+  for (const record of records) {
+    addRecord(totals, record)
+
+    const modelEntry = byModel.get(record.model) ?? { model: record.model, ...emptyTotals() }
+    addRecord(modelEntry, record)
+    byModel.set(record.model, modelEntry)
+
+    const day = record.createdAt.toISOString().slice(0, 10)
+    const dayEntry = byDay.get(day) ?? { day, ...emptyTotals() }
+    addRecord(dayEntry, record)
+    byDay.set(day, dayEntry)
+  }
+
+  return {
+    totals,
+    byModel: [...byModel.values()].sort((a, b) => b.totalTokens - a.totalTokens),
+    byDay: [...byDay.values()],
+  }
+}
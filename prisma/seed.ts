@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma'
 import bcrypt from 'bcryptjs'
+import { addBuiltInSystemPrompt, DEFAULT_SYSTEM_PROMPT, SYSTEM_PROMPT_TEMPLATE } from '../lib/prompts'
 
 async function main() {
   console.log('Seeding database...')
@@ -36,6 +37,33 @@ async function main() {
 
   console.log('Created test user:', user.email)
 
+  // Create the system prompt template with the built-in prompt as published version 1
+  const systemTemplate = await prisma.promptTemplate.upsert({
+    where: { name: SYSTEM_PROMPT_TEMPLATE },
+    update: {},
+    create: {
+      name: SYSTEM_PROMPT_TEMPLATE,
+      description: 'System prompt for /api/chat',
+      versions: {
+        create: {
+          version: 1,
+          content: DEFAULT_SYSTEM_PROMPT,
+          status: 'published',
+          createdById: admin.id,
+          publishedAt: new Date(),
+        },
+      },
+    },
+  })
+
+  console.log('Created prompt template:', systemTemplate.name)
+
+  // Existing installs get the built-in prompt's later additions (Mermaid diagrams, calculate tool)
+  const builtIn = await addBuiltInSystemPrompt(admin.id)
+  if (builtIn) {
+    console.log(`Added built-in prompt as version ${builtIn.version} (${builtIn.status})`)
+  }
+
   console.log('Seeding completed!')
 }
 